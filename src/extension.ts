@@ -3,8 +3,10 @@ import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { execFile } from 'child_process';
+import * as jsonc from 'jsonc-parser';
 
-type ProviderKind = 'github' | 'gitee';
+type ProviderKind = 'github' | 'gitee' | 'gitlab' | 'gitea' | 'folder' | 'git';
 
 type ProfileMeta = {
   schemaVersion: 1;
@@ -14,6 +16,36 @@ type ProfileMeta = {
   lastSyncAt?: string;
   platform?: string;
   vscodeVersion?: string;
+  // Present when the profile's files (everything except meta.json) are encrypted client-side.
+  encryption?: ProfileEncryption;
+  // Profile ids this profile inherits from, applied in order; this profile's own files go on top.
+  parents?: string[];
+  // What this profile syncs; missing => DEFAULT_ARTIFACTS
+  artifacts?: SyncArtifact[];
+};
+
+type SyncArtifact = 'settings' | 'keybindings' | 'snippets' | 'extensions' | 'tasks' | 'mcp' | 'prompts' | 'argv';
+
+const ARTIFACT_LABELS: Record<SyncArtifact, string> = {
+  settings: 'settings.json',
+  keybindings: 'keybindings.json',
+  snippets: 'snippets/',
+  extensions: 'Extensions',
+  tasks: 'tasks.json',
+  mcp: 'mcp.json',
+  prompts: 'prompts/',
+  argv: 'argv.json'
+};
+
+const DEFAULT_ARTIFACTS: SyncArtifact[] = ['settings', 'keybindings', 'snippets', 'extensions'];
+const ALL_ARTIFACTS = new Set(Object.keys(ARTIFACT_LABELS) as SyncArtifact[]);
+
+type ProfileEncryption = {
+  scheme: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  // ENCRYPTION_VERIFIER encrypted with the profile key; lets us reject a wrong passphrase before touching files.
+  verifier: string;
 };
 
 type ExtensionsSnapshot = {
@@ -23,13 +55,44 @@ type ExtensionsSnapshot = {
     id: string;
     version?: string;
     isBuiltin?: boolean;
+    // false when installed but disabled; missing in older snapshots => enabled
+    enabled?: boolean;
+    // Set for extensions pinned in VSCode (auto-update off): other machines install exactly this version
+    pinnedVersion?: string;
   }>;
 };
 
-type RepoRef = { owner: string; repo: string; branch: string };
+type ExtensionEntry = ExtensionsSnapshot['extensions'][number];
+
+// `commit` pins reads (readFile/listDir) to a past commit instead of the head of `branch`; writes always target `branch`.
+type RepoRef = { owner: string; repo: string; branch: string; commit?: string };
+
+type CommitInfo = { sha: string; message: string; author: string; date: string };
+
+type CommitFile = { path: string; status: 'added' | 'modified' | 'deleted' | 'renamed' };
 
 type RemoteFile = { content: string; sha?: string };
 
+// A file to write, or (`delete: true`) one to remove; deleting a missing file is a no-op.
+type FileChange = { path: string; content: string; delete?: false } | { path: string; delete: true };
+
+// What the current credentials may do with a repo; fields a provider cannot tell stay undefined. Used by Run Diagnostics.
+type RepoAccess = {
+  // false => missing, or invisible to this account
+  exists: boolean;
+  isPrivate?: boolean;
+  // The account may push to the repo
+  canWrite?: boolean;
+  // Scopes the server reports for the token (GitHub classic/OAuth tokens, GitLab personal tokens)
+  scopes?: string[];
+  // The checked branch: the one asked for, else the repo's default
+  branch?: string;
+  branchExists?: boolean;
+  // Push allowed with branch protection taken into account
+  branchWritable?: boolean;
+  branchProtected?: boolean;
+};
+
 interface RemoteProvider {
   readonly kind: ProviderKind;
   getViewerLogin(): Promise<string>;
@@ -37,7 +100,13 @@ interface RemoteProvider {
   ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void>;
   readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined>;
   writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void>;
+  // Writes all files as a single commit. Either every file lands or the branch is left untouched.
+  commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void>;
   listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>>;
+  // Newest first; only commits touching `dirPath` on the branch.
+  listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]>;
+  getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]>;
+  getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess>;
 }
 
 const STATE_KEYS = {
@@ -46,13 +115,36 @@ const STATE_KEYS = {
   repoName: 'syncVsCodeSettings.repoName',
   branch: 'syncVsCodeSettings.branch',
   profileId: 'syncVsCodeSettings.profileId',
-  profileDisplayName: 'syncVsCodeSettings.profileDisplayName'
+  profileDisplayName: 'syncVsCodeSettings.profileDisplayName',
+  // profileId -> meta.json lastSyncAt of the last upload/download of that profile done on this machine
+  lastSyncAt: 'syncVsCodeSettings.lastSyncAt',
+  // Folder path (folder provider) or git URL / repo path (git provider)
+  localLocation: 'syncVsCodeSettings.localLocation',
+  // API root of hosted providers, e.g. https://git.example.com/api/v4 for self-hosted GitLab
+  apiBaseUrl: 'syncVsCodeSettings.apiBaseUrl',
+  // profileId -> folder under User/profiles of the VS Code profile it is linked to on this machine
+  nativeProfiles: 'syncVsCodeSettings.nativeProfiles',
+  // RemoteTarget[]: extra targets every upload is mirrored to
+  mirrors: 'syncVsCodeSettings.mirrors',
+  // AuthMode of the primary hosted target; unset means a pasted token
+  auth: 'syncVsCodeSettings.auth',
+  // profileId -> journal entries of downloads/restores not written to history.jsonl yet; the next upload commits them
+  pendingHistory: 'syncVsCodeSettings.pendingHistory'
 } as const;
 
+const EXTENSION_ID = 'odinsam.odinsam-syncvscodesettings';
+
 const SECRET_KEYS = {
-  token: 'syncVsCodeSettings.token'
+  token: 'syncVsCodeSettings.token',
+  passphrase: 'syncVsCodeSettings.passphrase',
+  // JSON OAuthSession of a Gitee sign-in
+  oauthSession: 'syncVsCodeSettings.oauthSession',
+  giteeClientSecret: 'syncVsCodeSettings.gitee.clientSecret'
 } as const;
 
+// 'token': pasted personal access token; 'vscode': VS Code GitHub account; 'oauth': Gitee OAuth sign-in
+type AuthMode = 'token' | 'vscode' | 'oauth';
+
 function sha256(s: string) {
   return crypto.createHash('sha256').update(s).digest('hex');
 }
@@ -74,6 +166,17 @@ function encodePathForUrl(p: string) {
     .join('/');
 }
 
+function readRevision(ref: RepoRef) {
+  return ref.commit || ref.branch;
+}
+
+function toCommitFileStatus(status: string): CommitFile['status'] {
+  if (status === 'added' || status === 'A') return 'added';
+  if (status === 'removed' || status === 'deleted' || status === 'D') return 'deleted';
+  if (status === 'renamed' || status.startsWith('R')) return 'renamed';
+  return 'modified';
+}
+
 function base64EncodeUtf8(s: string) {
   return Buffer.from(s, 'utf8').toString('base64');
 }
@@ -82,28 +185,206 @@ function base64DecodeUtf8(b64: string) {
   return Buffer.from(b64, 'base64').toString('utf8');
 }
 
-async function fetchJson(url: string, init: RequestInit): Promise<any> {
-  const res = await fetch(url, init);
-  const text = await res.text();
-  let json: any = undefined;
+const ENCRYPTED_PREFIX = 'ENC1:';
+const ENCRYPTION_VERIFIER = 'odinsam-syncvscodesettings';
+
+async function deriveKey(passphrase: string, saltB64: string): Promise<Buffer> {
+  return await new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(passphrase, Buffer.from(saltB64, 'base64'), 32, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// ENC1:<base64(iv | authTag | ciphertext)>
+function encryptText(key: Buffer, plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64');
+}
+
+function decryptText(key: Buffer, text: string): string {
+  const raw = Buffer.from(text.slice(ENCRYPTED_PREFIX.length).trim(), 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(12, 28));
+  return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString('utf8');
+}
+
+const DEFAULT_API_BASE_URLS = {
+  github: 'https://api.github.com',
+  gitee: 'https://gitee.com/api/v5',
+  gitlab: 'https://gitlab.com/api/v4',
+  gitea: 'https://gitea.com/api/v1'
+} as const;
+
+type HostedProviderKind = keyof typeof DEFAULT_API_BASE_URLS;
+
+// Maps a web host (https://github.example.com) to the provider's API root. Explicit API URLs are kept as-is.
+function apiBaseUrlFor(kind: HostedProviderKind, host: string): string {
+  const h = host.trim().replace(/\/+$/, '');
+  if (!h) return DEFAULT_API_BASE_URLS[kind];
+  const url = /^[a-z]+:\/\//i.test(h) ? h : `https://${h}`;
+  if (/\/api(\/|$)/.test(new URL(url).pathname)) return url;
+  if (kind === 'github') return ['github.com', 'api.github.com'].includes(new URL(url).hostname) ? DEFAULT_API_BASE_URLS.github : `${url}/api/v3`;
+  if (kind === 'gitee') return `${url}/api/v5`;
+  if (kind === 'gitlab') return `${url}/api/v4`;
+  return `${url}/api/v1`;
+}
+
+type RateLimitInfo = {
+  remaining?: number;
+  // Epoch ms when the quota resets (X-RateLimit-Reset / RateLimit-Reset)
+  resetAt?: number;
+  // From Retry-After
+  retryAfterMs?: number;
+};
+
+// Error bodies that only carry a (localized) message; mapped to codes so callers don't match on text.
+const KNOWN_ERROR_MESSAGES: Array<[string, string]> = [
+  ['文件名已存在', 'already_exists'],
+  ['只允许在分支上创建或更新文件', 'branch_required'],
+  ['secondary rate limit', 'rate_limited'],
+  ['API rate limit exceeded', 'rate_limited'],
+  ['超出API调用频率限制', 'rate_limited']
+];
+
+// Non-2xx response of a hosted provider API. `message` is meant for the user; `code` and `status` for callers.
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    // Provider error code (GitHub `errors[].code`, GitLab `error`, or one of KNOWN_ERROR_MESSAGES)
+    readonly code: string | undefined,
+    readonly rateLimit: RateLimitInfo
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  get isRateLimited() {
+    return this.status === 429 || this.code === 'rate_limited' || (this.status === 403 && this.rateLimit.remaining === 0);
+  }
+}
+
+function isHttpStatus(e: unknown, status: number) {
+  return e instanceof HttpError && e.status === status;
+}
+
+// undefined instead of an HTTP 404 error
+async function unlessNotFound<T>(request: Promise<T>): Promise<T | undefined> {
+  try {
+    return await request;
+  } catch (e) {
+    if (isHttpStatus(e, 404)) return undefined;
+    throw e;
+  }
+}
+
+function httpErrorCode(e: unknown) {
+  return e instanceof HttpError ? e.code : undefined;
+}
+
+function parseRateLimit(headers: Headers): RateLimitInfo {
+  const num = (name: string) => {
+    const v = headers.get(name);
+    return v !== null && v.trim() !== '' && Number.isFinite(Number(v)) ? Number(v) : undefined;
+  };
+  const retryAfter = headers.get('retry-after');
+  const retryAfterMs =
+    retryAfter === null ? undefined : Number.isFinite(Number(retryAfter)) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+  const reset = num('x-ratelimit-reset') ?? num('ratelimit-reset');
+  return {
+    remaining: num('x-ratelimit-remaining') ?? num('ratelimit-remaining'),
+    // GitHub/GitLab send epoch seconds; small values are "seconds from now" (IETF RateLimit-Reset)
+    resetAt: reset === undefined ? undefined : reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000,
+    retryAfterMs: retryAfterMs !== undefined && Number.isFinite(retryAfterMs) ? Math.max(0, retryAfterMs) : undefined
+  };
+}
+
+function toHttpError(url: string, res: Response, json: any, text: string): HttpError {
+  const detail = String(json?.message || json?.error_description || json?.error || text || res.statusText).trim();
+  const code =
+    json?.errors?.[0]?.code || (typeof json?.error === 'string' ? json.error : undefined) || KNOWN_ERROR_MESSAGES.find(([m]) => detail.includes(m))?.[1];
+  const rateLimit = parseRateLimit(res.headers);
+  const error = new HttpError(res.status, `HTTP ${res.status}: ${detail}`, code, rateLimit);
+
+  const host = new URL(url).host;
+  let message = error.message;
+  if (error.isRateLimited) {
+    const resetAt = rateLimit.resetAt ?? (rateLimit.retryAfterMs !== undefined ? Date.now() + rateLimit.retryAfterMs : undefined);
+    message = `${host}: API rate limit exceeded (HTTP ${res.status})${resetAt ? `, try again after ${new Date(resetAt).toLocaleTimeString()}` : ''}.`;
+  } else if (res.status === 401) {
+    message = `${host}: authentication failed (HTTP 401). The token is invalid or expired; run "Sync VSCode Settings: Configure" again.`;
+  } else if (res.status === 403) {
+    message = `${host}: permission denied (HTTP 403): ${detail}. Check that the token can read and write repository contents.`;
+  }
+  error.message = message;
+  return error;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+const HTTP_MAX_RETRIES = 3;
+// Waiting longer than this for a quota reset is reported instead of retried
+const HTTP_MAX_RETRY_WAIT_MS = 60_000;
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+// A single request that gives up after `ms`, for checks that must not hold up a sync (Open VSX lookups, diagnostics).
+function fetchWithTimeout(url: string, init: RequestInit, ms = PROBE_TIMEOUT_MS): Promise<Response> {
+  return fetch(url, { ...init, signal: AbortSignal.timeout(ms) });
+}
+
+// undefined for a missing or malformed URL (e.g. a hand-edited product.json)
+function urlOrigin(url: string | undefined): string | undefined {
+  if (!url) return undefined;
   try {
-    json = text ? JSON.parse(text) : undefined;
+    return new URL(url).origin;
   } catch {
-    // ignore
+    return undefined;
   }
-  if (!res.ok) {
-    const msg = json?.message || json?.error_description || json?.error || text || `${res.status} ${res.statusText}`;
-    throw new Error(`HTTP ${res.status}: ${msg}`);
+}
+
+// Reads (GET) are retried on network errors and 5xx; anything is retried when rate limited, since the request was not processed.
+async function fetchJson(url: string, init: RequestInit): Promise<any> {
+  const idempotent = (init.method ?? 'GET').toUpperCase() === 'GET';
+  for (let attempt = 0; ; attempt++) {
+    const backoff = 1000 * 2 ** attempt + Math.random() * 250;
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (e) {
+      if (!idempotent || attempt >= HTTP_MAX_RETRIES) throw e;
+      await sleep(backoff);
+      continue;
+    }
+
+    const text = await res.text();
+    let json: any = undefined;
+    try {
+      json = text ? JSON.parse(text) : undefined;
+    } catch {
+      // ignore
+    }
+    if (res.ok) return json;
+
+    const error = toHttpError(url, res, json, text);
+    const retryable = error.isRateLimited || (idempotent && res.status >= 500);
+    if (!retryable || attempt >= HTTP_MAX_RETRIES) throw error;
+    const { retryAfterMs, resetAt } = error.rateLimit;
+    const wait = retryAfterMs ?? (error.isRateLimited && resetAt ? resetAt - Date.now() : backoff);
+    if (wait > HTTP_MAX_RETRY_WAIT_MS) throw error;
+    await sleep(Math.max(wait, 0));
   }
-  return json;
 }
 
 class GitHubProvider implements RemoteProvider {
   readonly kind: ProviderKind = 'github';
-  constructor(private readonly token: string) {}
+  constructor(private readonly token: string, private readonly baseUrl: string = DEFAULT_API_BASE_URLS.github) {}
 
   async getViewerLogin(): Promise<string> {
-    const json = await fetchJson('https://api.github.com/user', {
+    const json = await fetchJson(`${this.baseUrl}/user`, {
       method: 'GET',
       headers: {
         Authorization: `token ${this.token}`,
@@ -115,7 +396,7 @@ class GitHubProvider implements RemoteProvider {
   }
 
   async getDefaultBranch(owner: string, repo: string): Promise<string> {
-    const json = await fetchJson(`https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, {
+    const json = await fetchJson(`${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, {
       method: 'GET',
       headers: {
         Authorization: `token ${this.token}`,
@@ -129,7 +410,7 @@ class GitHubProvider implements RemoteProvider {
   async ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
     // Check if repo exists
     try {
-      await fetchJson(`https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, {
+      await fetchJson(`${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`, {
         method: 'GET',
         headers: {
           Authorization: `token ${this.token}`,
@@ -138,11 +419,12 @@ class GitHubProvider implements RemoteProvider {
         }
       });
       return;
-    } catch {
-      // continue to create
+    } catch (e) {
+      // Only a missing repo is created; auth and network errors are reported as they are
+      if (!isHttpStatus(e, 404)) throw e;
     }
 
-    await fetchJson('https://api.github.com/user/repos', {
+    await fetchJson(`${this.baseUrl}/user/repos`, {
       method: 'POST',
       headers: {
         Authorization: `token ${this.token}`,
@@ -161,7 +443,7 @@ class GitHubProvider implements RemoteProvider {
 
   async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
     const p = normalizeRepoPath(filePath);
-    const url = `https://api.github.com/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(ref.branch)}`;
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(readRevision(ref))}`;
     try {
       const json = await fetchJson(url, {
         method: 'GET',
@@ -171,18 +453,22 @@ class GitHubProvider implements RemoteProvider {
           'User-Agent': 'odinsam-syncvscodesettings'
         }
       });
-      if (!json?.content) return undefined;
+      if (!json?.content) {
+        // Files over 1 MB come back without content; treating them as missing would let the next write replace them
+        if (json?.type === 'file' && Number(json.size) > 0) throw new Error(`${p} is too large to be read through the ${this.kind} contents API`);
+        return undefined;
+      }
       return { content: base64DecodeUtf8(String(json.content).replace(/\n/g, '')), sha: json.sha };
     } catch (e: any) {
       // 404 => not found
-      if (String(e?.message || '').includes('HTTP 404')) return undefined;
+      if (isHttpStatus(e, 404)) return undefined;
       throw e;
     }
   }
 
   async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
     const p = normalizeRepoPath(filePath);
-    const getUrl = `https://api.github.com/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(ref.branch)}`;
+    const getUrl = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(ref.branch)}`;
     let sha: string | undefined = undefined;
     try {
       const existing = await fetchJson(getUrl, {
@@ -194,11 +480,11 @@ class GitHubProvider implements RemoteProvider {
         }
       });
       sha = existing?.sha;
-    } catch {
-      // ignore
+    } catch (e) {
+      if (!isHttpStatus(e, 404)) throw e;
     }
 
-    const putUrl = `https://api.github.com/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}`;
+    const putUrl = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}`;
     await fetchJson(putUrl, {
       method: 'PUT',
       headers: {
@@ -216,9 +502,118 @@ class GitHubProvider implements RemoteProvider {
     });
   }
 
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    if (!files.length) return;
+    const repoUrl = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}`;
+    const headers = {
+      Authorization: `token ${this.token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'odinsam-syncvscodesettings',
+      'Content-Type': 'application/json'
+    };
+
+    // Git Data API: build a tree on top of the current head, commit it, then move the branch.
+    // Nothing is visible on the branch until the final ref update succeeds.
+    const head = await fetchJson(`${repoUrl}/git/ref/heads/${encodePathForUrl(ref.branch)}`, { method: 'GET', headers });
+    const parentSha: string = head.object.sha;
+    const parent = await fetchJson(`${repoUrl}/git/commits/${parentSha}`, { method: 'GET', headers });
+    // Removing a path that is not in the tree fails the whole request, so only delete what exists.
+    const existing = new Set<string>();
+    if (files.some((f) => f.delete)) {
+      const current = await fetchJson(`${repoUrl}/git/trees/${parent.tree.sha}?recursive=1`, { method: 'GET', headers });
+      for (const x of Array.isArray(current?.tree) ? current.tree : []) if (x.type === 'blob') existing.add(String(x.path));
+    }
+
+    const tree = await fetchJson(`${repoUrl}/git/trees`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        base_tree: parent.tree.sha,
+        tree: files
+          .filter((f) => !f.delete || existing.has(normalizeRepoPath(f.path)))
+          .map((f) => ({ path: normalizeRepoPath(f.path), mode: '100644', type: 'blob', ...(f.delete ? { sha: null } : { content: f.content }) }))
+      })
+    });
+
+    const commit = await fetchJson(`${repoUrl}/git/commits`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ message, tree: tree.sha, parents: [parentSha] })
+    });
+
+    // force: false => rejected if another machine pushed in between, instead of dropping its commit
+    await fetchJson(`${repoUrl}/git/refs/heads/${encodePathForUrl(ref.branch)}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ sha: commit.sha, force: false })
+    });
+  }
+
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/commits?sha=${encodeURIComponent(
+      ref.branch
+    )}&path=${encodeURIComponent(normalizeRepoPath(dirPath))}&per_page=${limit}`;
+    const json = await fetchJson(url, {
+      method: 'GET',
+      headers: {
+        Authorization: `token ${this.token}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'odinsam-syncvscodesettings'
+      }
+    });
+    return (Array.isArray(json) ? json : []).map((x: any) => ({
+      sha: x.sha,
+      message: x.commit?.message || '',
+      author: x.commit?.author?.name || x.author?.login || '',
+      date: x.commit?.author?.date || ''
+    }));
+  }
+
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/commits/${encodeURIComponent(sha)}`;
+    const json = await fetchJson(url, {
+      method: 'GET',
+      headers: {
+        Authorization: `token ${this.token}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'odinsam-syncvscodesettings'
+      }
+    });
+    return (Array.isArray(json?.files) ? json.files : []).map((f: any) => ({ path: f.filename, status: toCommitFileStatus(String(f.status)) }));
+  }
+
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    const headers = {
+      Authorization: `token ${this.token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'odinsam-syncvscodesettings'
+    };
+    // Classic and OAuth tokens list their scopes in this header; fine-grained tokens send none
+    const userUrl = `${this.baseUrl}/user`;
+    const res = await fetchWithTimeout(userUrl, { method: 'HEAD', headers });
+    if (!res.ok) throw toHttpError(userUrl, res, undefined, '');
+    const scopes = res.headers.get('x-oauth-scopes');
+    const repoUrl = `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const json = await unlessNotFound(fetchJson(repoUrl, { method: 'GET', headers }));
+    const access: RepoAccess = { exists: Boolean(json), scopes: scopes === null ? undefined : scopes.split(',').map((x) => x.trim()).filter(Boolean) };
+    if (!json) return access;
+
+    const name = branch || json.default_branch;
+    const info = await unlessNotFound(fetchJson(`${repoUrl}/branches/${encodeURIComponent(name)}`, { method: 'GET', headers }));
+    return {
+      ...access,
+      isPrivate: Boolean(json.private),
+      canWrite: json.permissions ? Boolean(json.permissions.push) : undefined,
+      branch: name,
+      branchExists: Boolean(info),
+      // Protection may only require status checks, so this alone does not mean pushes fail
+      branchProtected: info ? Boolean(info.protected) : undefined
+    };
+  }
+
   async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
     const p = normalizeRepoPath(dirPath);
-    const url = `https://api.github.com/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(ref.branch)}`;
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(readRevision(ref))}`;
     try {
       const json = await fetchJson(url, {
         method: 'GET',
@@ -231,7 +626,7 @@ class GitHubProvider implements RemoteProvider {
       if (!Array.isArray(json)) return [];
       return json.map((x: any) => ({ path: x.path, type: x.type === 'dir' ? 'dir' : 'file' }));
     } catch (e: any) {
-      if (String(e?.message || '').includes('HTTP 404')) return [];
+      if (isHttpStatus(e, 404)) return [];
       throw e;
     }
   }
@@ -239,20 +634,23 @@ class GitHubProvider implements RemoteProvider {
 
 class GiteeProvider implements RemoteProvider {
   readonly kind: ProviderKind = 'gitee';
-  constructor(private readonly token: string) {}
+  constructor(private readonly token: string, private readonly baseUrl: string = DEFAULT_API_BASE_URLS.gitee) {}
+
+  // Sent as a header rather than the documented access_token parameter, so it stays out of URLs (logs, proxies)
+  private headers(json = false): Record<string, string> {
+    return { Authorization: `token ${this.token}`, ...(json ? { 'Content-Type': 'application/json' } : {}) };
+  }
 
   async getViewerLogin(): Promise<string> {
-    const json = await fetchJson(`https://gitee.com/api/v5/user?access_token=${encodeURIComponent(this.token)}`, {
-      method: 'GET'
-    });
+    const json = await fetchJson(`${this.baseUrl}/user`, { method: 'GET', headers: this.headers() });
     // login is gitee username (e.g. "odinsam")
     return json.login;
   }
 
   async getDefaultBranch(owner: string, repo: string): Promise<string> {
     const json = await fetchJson(
-      `https://gitee.com/api/v5/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}?access_token=${encodeURIComponent(this.token)}`,
-      { method: 'GET' }
+      `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+      { method: 'GET', headers: this.headers() }
     );
     // Gitee often defaults to "master" for new repos
     return json.default_branch || 'master';
@@ -262,17 +660,17 @@ class GiteeProvider implements RemoteProvider {
     // check
     try {
       await fetchJson(
-        `https://gitee.com/api/v5/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}?access_token=${encodeURIComponent(this.token)}`,
-        { method: 'GET' }
+        `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`,
+        { method: 'GET', headers: this.headers() }
       );
       return;
-    } catch {
-      // create
+    } catch (e) {
+      if (!isHttpStatus(e, 404)) throw e;
     }
 
-    await fetchJson(`https://gitee.com/api/v5/user/repos?access_token=${encodeURIComponent(this.token)}`, {
+    await fetchJson(`${this.baseUrl}/user/repos`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: this.headers(true),
       body: JSON.stringify({
         name: repo,
         private: isPrivate,
@@ -284,34 +682,37 @@ class GiteeProvider implements RemoteProvider {
 
   async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
     const p = normalizeRepoPath(filePath);
-    const url = `https://gitee.com/api/v5/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(
       p
-    )}?access_token=${encodeURIComponent(this.token)}&ref=${encodeURIComponent(ref.branch)}`;
+    )}?ref=${encodeURIComponent(readRevision(ref))}`;
     try {
-      const json = await fetchJson(url, { method: 'GET' });
-      if (!json?.content) return undefined;
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+      if (!json?.content) {
+        // Files over 1 MB come back without content; treating them as missing would let the next write replace them
+        if (json?.type === 'file' && Number(json.size) > 0) throw new Error(`${p} is too large to be read through the ${this.kind} contents API`);
+        return undefined;
+      }
       return { content: base64DecodeUtf8(String(json.content).replace(/\n/g, '')), sha: json.sha };
     } catch (e: any) {
-      if (String(e?.message || '').includes('HTTP 404')) return undefined;
+      if (isHttpStatus(e, 404)) return undefined;
       throw e;
     }
   }
 
   async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
     const p = normalizeRepoPath(filePath);
-    const urlBase = `https://gitee.com/api/v5/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(
-      p
-    )}?access_token=${encodeURIComponent(this.token)}`;
+    const urlBase = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(p)}`;
 
     const tryOnce = async (branch: string) => {
-      const url = `${urlBase}&branch=${encodeURIComponent(branch)}`;
+      const url = `${urlBase}?branch=${encodeURIComponent(branch)}`;
       const getSha = async (): Promise<string | undefined> => {
-        const getUrl = `${urlBase}&ref=${encodeURIComponent(branch)}`;
+        const getUrl = `${urlBase}?ref=${encodeURIComponent(branch)}`;
         try {
-          const existing = await fetchJson(getUrl, { method: 'GET' });
+          const existing = await fetchJson(getUrl, { method: 'GET', headers: this.headers() });
           return existing?.sha;
-        } catch {
-          return undefined;
+        } catch (e) {
+          if (isHttpStatus(e, 404)) return undefined;
+          throw e;
         }
       };
 
@@ -321,22 +722,21 @@ class GiteeProvider implements RemoteProvider {
         try {
           await fetchJson(url, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: this.headers(true),
             body: JSON.stringify({
               content: base64EncodeUtf8(content),
               message,
               branch
             })
           });
-        } catch (e: any) {
-          const msg = String(e?.message || '');
+        } catch (e) {
           // If it already exists, retry as update (PUT) by re-fetching sha.
-          if (msg.includes('文件名已存在')) {
+          if (httpErrorCode(e) === 'already_exists') {
             const sha2 = await getSha();
             if (!sha2) throw e;
             await fetchJson(url, {
               method: 'PUT',
-              headers: { 'Content-Type': 'application/json' },
+              headers: this.headers(true),
               body: JSON.stringify({
                 content: base64EncodeUtf8(content),
                 message,
@@ -353,7 +753,7 @@ class GiteeProvider implements RemoteProvider {
 
       await fetchJson(url, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers(true),
         body: JSON.stringify({
           content: base64EncodeUtf8(content),
           message,
@@ -366,9 +766,8 @@ class GiteeProvider implements RemoteProvider {
     try {
       await tryOnce(ref.branch);
       return;
-    } catch (e: any) {
-      const msg = String(e?.message || '');
-      if (!msg.includes('只允许在分支上创建或更新文件')) throw e;
+    } catch (e) {
+      if (httpErrorCode(e) !== 'branch_required') throw e;
 
       // Fallback: try common default branches.
       const candidates = Array.from(new Set([ref.branch, 'main', 'master'])).filter(Boolean);
@@ -376,410 +775,5101 @@ class GiteeProvider implements RemoteProvider {
         try {
           await tryOnce(b);
           return;
-        } catch (e2: any) {
-          const msg2 = String(e2?.message || '');
-          if (!msg2.includes('只允许在分支上创建或更新文件')) throw e2;
+        } catch (e2) {
+          if (httpErrorCode(e2) !== 'branch_required') throw e2;
         }
       }
       throw e;
     }
   }
 
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    if (!files.length) return;
+    const repoUrl = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}`;
+
+    // Gitee needs create vs update per file, so look at the current tree of the branch first.
+    const branch = await fetchJson(`${repoUrl}/branches/${encodeURIComponent(ref.branch)}`, { method: 'GET', headers: this.headers() });
+    const headSha: string = branch.commit.sha;
+    const tree = await fetchJson(`${repoUrl}/git/trees/${headSha}?recursive=1`, { method: 'GET', headers: this.headers() });
+    const existing = new Set<string>(
+      (Array.isArray(tree?.tree) ? tree.tree : []).filter((x: any) => x.type === 'blob').map((x: any) => String(x.path))
+    );
+
+    // "提交多个文件变更": all actions are applied as one commit, or not at all.
+    await fetchJson(`${repoUrl}/commits`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        branch: ref.branch,
+        message,
+        actions: files
+          .filter((f) => !f.delete || existing.has(normalizeRepoPath(f.path)))
+          .map((f) => {
+            const p = normalizeRepoPath(f.path);
+            if (f.delete) return { action: 'delete', path: p };
+            return { action: existing.has(p) ? 'update' : 'create', path: p, content: base64EncodeUtf8(f.content), encoding: 'base64' };
+          })
+      })
+    });
+  }
+
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/commits?sha=${encodeURIComponent(
+      ref.branch
+    )}&path=${encodeURIComponent(normalizeRepoPath(dirPath))}&per_page=${limit}`;
+    const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json) ? json : []).map((x: any) => ({
+      sha: x.sha,
+      message: x.commit?.message || '',
+      author: x.commit?.author?.name || x.author?.login || '',
+      date: x.commit?.author?.date || ''
+    }));
+  }
+
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/commits/${encodeURIComponent(
+      sha
+    )}`;
+    const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json?.files) ? json.files : []).map((f: any) => ({ path: f.filename, status: toCommitFileStatus(String(f.status)) }));
+  }
+
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    const repoUrl = `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const json = await unlessNotFound(fetchJson(repoUrl, { method: 'GET', headers: this.headers() }));
+    if (!json) return { exists: false };
+    const name = branch || json.default_branch || 'master';
+    const info = await unlessNotFound(fetchJson(`${repoUrl}/branches/${encodeURIComponent(name)}`, { method: 'GET', headers: this.headers() }));
+    return {
+      exists: true,
+      isPrivate: Boolean(json.private),
+      canWrite: json.permission ? Boolean(json.permission.push) : undefined,
+      branch: name,
+      branchExists: Boolean(info),
+      branchProtected: info ? Boolean(info.protected) : undefined
+    };
+  }
+
   async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
     const p = normalizeRepoPath(dirPath);
-    const url = `https://gitee.com/api/v5/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(
+    const url = `${this.baseUrl}/repos/${encodeURIComponent(ref.owner)}/${encodeURIComponent(ref.repo)}/contents/${encodePathForUrl(
       p
-    )}?access_token=${encodeURIComponent(this.token)}&ref=${encodeURIComponent(ref.branch)}`;
+    )}?ref=${encodeURIComponent(readRevision(ref))}`;
     try {
-      const json = await fetchJson(url, { method: 'GET' });
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
       if (!Array.isArray(json)) return [];
       return json.map((x: any) => ({ path: x.path, type: x.type === 'dir' ? 'dir' : 'file' }));
     } catch (e: any) {
-      if (String(e?.message || '').includes('HTTP 404')) return [];
+      if (isHttpStatus(e, 404)) return [];
       throw e;
     }
   }
 }
 
-function getConfig() {
-  return vscode.workspace.getConfiguration('syncVsCodeSettings');
-}
+// GitLab REST API v4 (gitlab.com or self-hosted). owner/repo map to the project path "owner/repo".
+class GitLabProvider implements RemoteProvider {
+  readonly kind: ProviderKind = 'gitlab';
+  constructor(private readonly token: string, private readonly baseUrl: string = DEFAULT_API_BASE_URLS.gitlab) {}
 
-class StatusBarController {
-  private busyCount = 0;
-  constructor(private readonly item: vscode.StatusBarItem) {}
+  private headers(json = false): Record<string, string> {
+    return { 'PRIVATE-TOKEN': this.token, ...(json ? { 'Content-Type': 'application/json' } : {}) };
+  }
 
-  setIdle() {
-    this.item.text = '$(sync)';
-    this.item.tooltip = '同步vscode配置';
+  private projectUrl(owner: string, repo: string) {
+    return `${this.baseUrl}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
   }
 
-  setBusy(label?: string) {
-    this.item.text = '$(sync~spin)';
-    this.item.tooltip = '同步vscode配置';
+  private async listTree(ref: RepoRef, dirPath: string, recursive: boolean): Promise<any[]> {
+    const p = normalizeRepoPath(dirPath).replace(/\/+$/, '');
+    const results: any[] = [];
+    for (let page = 1; ; page++) {
+      const url = `${this.projectUrl(ref.owner, ref.repo)}/repository/tree?ref=${encodeURIComponent(readRevision(ref))}&path=${encodeURIComponent(
+        p
+      )}&recursive=${recursive}&per_page=100&page=${page}`;
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+      if (!Array.isArray(json)) break;
+      results.push(...json);
+      if (json.length < 100) break;
+    }
+    return results;
   }
 
-  async run<T>(label: string, fn: () => Promise<T>): Promise<T> {
-    this.busyCount += 1;
-    this.setBusy(label);
+  async getViewerLogin(): Promise<string> {
+    const json = await fetchJson(`${this.baseUrl}/user`, { method: 'GET', headers: this.headers() });
+    return json.username;
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const json = await fetchJson(this.projectUrl(owner, repo), { method: 'GET', headers: this.headers() });
+    return json.default_branch || 'main';
+  }
+
+  async ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
     try {
-      return await fn();
-    } finally {
-      this.busyCount -= 1;
-      if (this.busyCount <= 0) {
-        this.busyCount = 0;
-        this.setIdle();
-      } else {
-        this.setBusy();
+      await fetchJson(this.projectUrl(owner, repo), { method: 'GET', headers: this.headers() });
+      return;
+    } catch (e) {
+      if (!isHttpStatus(e, 404)) throw e;
+    }
+
+    await fetchJson(`${this.baseUrl}/projects`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        name: repo,
+        path: repo,
+        visibility: isPrivate ? 'private' : 'public',
+        initialize_with_readme: true,
+        description: 'Synced VSCode settings, keybindings, snippets, and extensions list.'
+      })
+    });
+  }
+
+  async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    const p = normalizeRepoPath(filePath);
+    const url = `${this.projectUrl(ref.owner, ref.repo)}/repository/files/${encodeURIComponent(p)}?ref=${encodeURIComponent(readRevision(ref))}`;
+    try {
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+      if (typeof json?.content !== 'string') return undefined;
+      return { content: base64DecodeUtf8(json.content), sha: json.blob_id };
+    } catch (e: any) {
+      if (isHttpStatus(e, 404)) return undefined;
+      throw e;
+    }
+  }
+
+  async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    await this.commitFiles(ref, [{ path: filePath, content }], message);
+  }
+
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    if (!files.length) return;
+    // GitLab needs create vs update per file; only the directories we touch are listed.
+    const dirs = Array.from(new Set(files.map((f) => path.posix.dirname(normalizeRepoPath(f.path)).split('/')[0])));
+    const existing = new Set<string>();
+    for (const dir of dirs) {
+      try {
+        for (const x of await this.listTree(ref, dir === '.' ? '' : dir, true)) if (x.type === 'blob') existing.add(String(x.path));
+      } catch (e: any) {
+        if (!isHttpStatus(e, 404)) throw e;
       }
     }
+
+    await fetchJson(`${this.projectUrl(ref.owner, ref.repo)}/repository/commits`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        branch: ref.branch,
+        commit_message: message,
+        actions: files
+          .filter((f) => !f.delete || existing.has(normalizeRepoPath(f.path)))
+          .map((f) => {
+            const p = normalizeRepoPath(f.path);
+            if (f.delete) return { action: 'delete', file_path: p };
+            return { action: existing.has(p) ? 'update' : 'create', file_path: p, content: base64EncodeUtf8(f.content), encoding: 'base64' };
+          })
+      })
+    });
   }
-}
 
-async function openStatusBarMenu(context: vscode.ExtensionContext) {
-  const pick = await vscode.window.showQuickPick(
-    [
-      { label: '$(key) Configure', command: 'syncVsCodeSettings.configure' },
-      { label: '$(git-branch) Switch Profile', command: 'syncVsCodeSettings.switchProfile' },
-      { label: '$(cloud-upload) Upload', command: 'syncVsCodeSettings.upload' },
-      { label: '$(cloud-download) Download', command: 'syncVsCodeSettings.download' }
-    ],
-    { placeHolder: 'Sync VSCode Settings' }
-  );
-  if (!pick) return;
-  await vscode.commands.executeCommand(pick.command);
-}
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    const url = `${this.projectUrl(ref.owner, ref.repo)}/repository/commits?ref_name=${encodeURIComponent(ref.branch)}&path=${encodeURIComponent(
+      normalizeRepoPath(dirPath)
+    )}&per_page=${limit}`;
+    const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json) ? json : []).map((x: any) => ({
+      sha: x.id,
+      message: x.message || x.title || '',
+      author: x.author_name || '',
+      date: x.committed_date || x.created_at || ''
+    }));
+  }
 
-function inferUserDataDirFromProcessArgs(): string | undefined {
-  const idx = process.argv.findIndex((a) => a === '--user-data-dir');
-  if (idx >= 0 && process.argv[idx + 1]) return process.argv[idx + 1];
-  const prefixed = process.argv.find((a) => a.startsWith('--user-data-dir='));
-  if (prefixed) return prefixed.split('=')[1];
-  return undefined;
-}
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    const url = `${this.projectUrl(ref.owner, ref.repo)}/repository/commits/${encodeURIComponent(sha)}/diff?per_page=100`;
+    const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json) ? json : []).map((d: any) => ({
+      path: d.deleted_file ? d.old_path : d.new_path,
+      status: d.new_file ? 'added' : d.deleted_file ? 'deleted' : d.renamed_file ? 'renamed' : 'modified'
+    }));
+  }
 
-function defaultUserDataDir(): string {
-  // Heuristic defaults for stable channel ("Code"). If user uses portable/user-data-dir, prefer the argv override.
-  const platform = process.platform;
-  if (platform === 'darwin') return path.join(os.homedir(), 'Library', 'Application Support', 'Code');
-  if (platform === 'win32') return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'Code');
-  // linux
-  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'Code');
-}
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    // Only personal access tokens can describe themselves (GitLab 15.5+)
+    const self = await fetchJson(`${this.baseUrl}/personal_access_tokens/self`, { method: 'GET', headers: this.headers() }).catch((e) => {
+      log.debug(`Token scopes not available: ${e?.message || e}`);
+      return undefined;
+    });
+    const scopes: string[] | undefined = Array.isArray(self?.scopes) ? self.scopes : undefined;
+    const json = await unlessNotFound(fetchJson(this.projectUrl(owner, repo), { method: 'GET', headers: this.headers() }));
+    if (!json) return { exists: false, scopes };
 
-async function getLocalUserDir(): Promise<string> {
-  const override = String(getConfig().get('localUserDataDir') || '').trim();
-  const userDataDir = override || inferUserDataDirFromProcessArgs() || defaultUserDataDir();
-  return path.join(userDataDir, 'User');
-}
+    const level = Math.max(json.permissions?.project_access?.access_level ?? 0, json.permissions?.group_access?.access_level ?? 0);
+    const name = branch || json.default_branch || 'main';
+    const info = await unlessNotFound(
+      fetchJson(`${this.projectUrl(owner, repo)}/repository/branches/${encodeURIComponent(name)}`, { method: 'GET', headers: this.headers() })
+    );
+    return {
+      exists: true,
+      isPrivate: json.visibility === 'private',
+      // 30 = Developer, the lowest role that may push
+      canWrite: json.permissions ? level >= 30 : undefined,
+      scopes,
+      branch: name,
+      branchExists: Boolean(info),
+      branchWritable: info ? Boolean(info.can_push) : undefined,
+      branchProtected: info ? Boolean(info.protected) : undefined
+    };
+  }
 
-async function readTextIfExists(filePath: string): Promise<string | undefined> {
-  try {
-    return await fs.readFile(filePath, 'utf8');
-  } catch (e: any) {
-    if (e?.code === 'ENOENT') return undefined;
-    throw e;
+  async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    try {
+      const items = await this.listTree(ref, dirPath, false);
+      return items.map((x: any) => ({ path: x.path, type: x.type === 'tree' ? 'dir' : 'file' }));
+    } catch (e: any) {
+      if (isHttpStatus(e, 404)) return [];
+      throw e;
+    }
   }
 }
 
-async function ensureDir(dirPath: string): Promise<void> {
-  await fs.mkdir(dirPath, { recursive: true });
-}
+// Gitea / Forgejo API v1. Batch commits need Gitea >= 1.20 (POST /contents "ChangeFiles").
+class GiteaProvider implements RemoteProvider {
+  readonly kind: ProviderKind = 'gitea';
+  constructor(private readonly token: string, private readonly baseUrl: string = DEFAULT_API_BASE_URLS.gitea) {}
 
-async function listSnippetFiles(snippetsDir: string): Promise<string[]> {
-  try {
-    const ents = await fs.readdir(snippetsDir, { withFileTypes: true });
-    return ents.filter((e) => e.isFile()).map((e) => path.join(snippetsDir, e.name));
-  } catch (e: any) {
-    if (e?.code === 'ENOENT') return [];
-    throw e;
+  private headers(json = false): Record<string, string> {
+    return { Authorization: `token ${this.token}`, Accept: 'application/json', ...(json ? { 'Content-Type': 'application/json' } : {}) };
   }
-}
 
-function safeJsonParse<T>(s: string, fallback: T): T {
-  try {
-    return JSON.parse(s) as T;
-  } catch {
-    return fallback;
+  private repoUrl(owner: string, repo: string) {
+    return `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
   }
-}
 
-async function snapshotExtensions(): Promise<ExtensionsSnapshot> {
-  const exts = vscode.extensions.all
+  async getViewerLogin(): Promise<string> {
+    const json = await fetchJson(`${this.baseUrl}/user`, { method: 'GET', headers: this.headers() });
+    return json.login;
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const json = await fetchJson(this.repoUrl(owner, repo), { method: 'GET', headers: this.headers() });
+    return json.default_branch || 'main';
+  }
+
+  async ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
+    try {
+      await fetchJson(this.repoUrl(owner, repo), { method: 'GET', headers: this.headers() });
+      return;
+    } catch (e) {
+      if (!isHttpStatus(e, 404)) throw e;
+    }
+
+    await fetchJson(`${this.baseUrl}/user/repos`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        name: repo,
+        private: isPrivate,
+        auto_init: true,
+        description: 'Synced VSCode settings, keybindings, snippets, and extensions list.'
+      })
+    });
+  }
+
+  async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    const p = normalizeRepoPath(filePath);
+    const url = `${this.repoUrl(ref.owner, ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(readRevision(ref))}`;
+    try {
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+      if (typeof json?.content !== 'string') return undefined;
+      return { content: base64DecodeUtf8(json.content.replace(/\n/g, '')), sha: json.sha };
+    } catch (e: any) {
+      if (isHttpStatus(e, 404)) return undefined;
+      throw e;
+    }
+  }
+
+  async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    await this.commitFiles(ref, [{ path: filePath, content }], message);
+  }
+
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    if (!files.length) return;
+    // Updates must carry the current blob sha, so read the whole tree of the branch once.
+    const shas = new Map<string, string>();
+    for (let page = 1; ; page++) {
+      const tree = await fetchJson(
+        `${this.repoUrl(ref.owner, ref.repo)}/git/trees/${encodeURIComponent(ref.branch)}?recursive=true&per_page=1000&page=${page}`,
+        { method: 'GET', headers: this.headers() }
+      );
+      for (const x of Array.isArray(tree?.tree) ? tree.tree : []) if (x.type === 'blob') shas.set(String(x.path), String(x.sha));
+      if (!tree?.truncated) break;
+    }
+
+    await fetchJson(`${this.repoUrl(ref.owner, ref.repo)}/contents`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        branch: ref.branch,
+        message,
+        files: files
+          .filter((f) => !f.delete || shas.has(normalizeRepoPath(f.path)))
+          .map((f) => {
+            const p = normalizeRepoPath(f.path);
+            const sha = shas.get(p);
+            if (f.delete) return { operation: 'delete', path: p, sha };
+            return { operation: sha ? 'update' : 'create', path: p, content: base64EncodeUtf8(f.content), ...(sha ? { sha } : {}) };
+          })
+      })
+    });
+  }
+
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    const url = `${this.repoUrl(ref.owner, ref.repo)}/commits?sha=${encodeURIComponent(ref.branch)}&path=${encodeURIComponent(
+      normalizeRepoPath(dirPath)
+    )}&limit=${limit}&stat=false`;
+    const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json) ? json : []).map((x: any) => ({
+      sha: x.sha,
+      message: x.commit?.message || '',
+      author: x.commit?.author?.name || '',
+      date: x.commit?.author?.date || x.created || ''
+    }));
+  }
+
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    const json = await fetchJson(`${this.repoUrl(ref.owner, ref.repo)}/git/commits/${encodeURIComponent(sha)}`, { method: 'GET', headers: this.headers() });
+    return (Array.isArray(json?.files) ? json.files : []).map((f: any) => ({ path: f.filename, status: toCommitFileStatus(String(f.status)) }));
+  }
+
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    const json = await unlessNotFound(fetchJson(this.repoUrl(owner, repo), { method: 'GET', headers: this.headers() }));
+    if (!json) return { exists: false };
+    const name = branch || json.default_branch || 'main';
+    const info = await unlessNotFound(
+      fetchJson(`${this.repoUrl(owner, repo)}/branches/${encodeURIComponent(name)}`, { method: 'GET', headers: this.headers() })
+    );
+    return {
+      exists: true,
+      isPrivate: Boolean(json.private),
+      canWrite: json.permissions ? Boolean(json.permissions.push) : undefined,
+      branch: name,
+      branchExists: Boolean(info),
+      branchWritable: info ? Boolean(info.user_can_push) : undefined,
+      branchProtected: info ? Boolean(info.protected) : undefined
+    };
+  }
+
+  async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    const p = normalizeRepoPath(dirPath);
+    const url = `${this.repoUrl(ref.owner, ref.repo)}/contents/${encodePathForUrl(p)}?ref=${encodeURIComponent(readRevision(ref))}`;
+    try {
+      const json = await fetchJson(url, { method: 'GET', headers: this.headers() });
+      if (!Array.isArray(json)) return [];
+      return json.map((x: any) => ({ path: x.path, type: x.type === 'dir' ? 'dir' : 'file' }));
+    } catch (e: any) {
+      if (isHttpStatus(e, 404)) return [];
+      throw e;
+    }
+  }
+}
+
+// Stores profiles as plain files in a directory, e.g. a network share or a Syncthing/Dropbox folder.
+// owner/repo/branch of RepoRef are not used: the folder itself is the "repo".
+export class FolderProvider implements RemoteProvider {
+  readonly kind: ProviderKind = 'folder';
+  constructor(private readonly root: string) {}
+
+  private resolve(filePath: string) {
+    return path.join(this.root, ...normalizeRepoPath(filePath).split('/').filter(Boolean));
+  }
+
+  async getViewerLogin(): Promise<string> {
+    return os.userInfo().username;
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    return 'main';
+  }
+
+  async ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
+    await ensureDir(this.root);
+  }
+
+  async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    const content = await readTextIfExists(this.resolve(filePath));
+    return content === undefined ? undefined : { content };
+  }
+
+  async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    await this.commitFiles(ref, [{ path: filePath, content }], message);
+  }
+
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    // Stage every file next to its target first and only then rename them into place,
+    // so a failed write (disk full, share offline) leaves the existing files untouched.
+    const staged: Array<{ tmp: string; target: string }> = [];
+    try {
+      for (const f of files) {
+        if (f.delete) continue;
+        const target = this.resolve(f.path);
+        const tmp = `${target}.${crypto.randomUUID()}.tmp`;
+        await ensureDir(path.dirname(target));
+        await fs.writeFile(tmp, f.content, 'utf8');
+        staged.push({ tmp, target });
+      }
+    } catch (e) {
+      await Promise.all(staged.map((x) => fs.rm(x.tmp, { force: true })));
+      throw e;
+    }
+    for (const x of staged) await fs.rename(x.tmp, x.target);
+    for (const f of files) {
+      if (!f.delete) continue;
+      const target = this.resolve(f.path);
+      await fs.rm(target, { force: true });
+      // Drop directories left empty (e.g. a deleted profile), like a git tree would
+      for (let dir = path.dirname(target); dir.startsWith(this.root + path.sep); dir = path.dirname(dir)) {
+        const left = await fs.readdir(dir).catch(() => undefined);
+        if (!left || left.length) break;
+        await fs.rmdir(dir).catch(() => undefined);
+      }
+    }
+  }
+
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    throw new Error('Version history is not available for local folder storage.');
+  }
+
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    throw new Error('Version history is not available for local folder storage.');
+  }
+
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    // A folder has no branches and no visibility; only whether it is there and writable matters
+    return { exists: await isDirectory(this.root), canWrite: await isWritable(this.root) };
+  }
+
+  async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    const p = normalizeRepoPath(dirPath);
+    try {
+      const ents = await fs.readdir(this.resolve(p), { withFileTypes: true });
+      return ents
+        .filter((e) => !e.name.endsWith('.tmp'))
+        .map((e) => ({ path: path.posix.join(p, e.name), type: e.isDirectory() ? 'dir' : 'file' }));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return [];
+      throw e;
+    }
+  }
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) reject(new Error(`git ${args[0]} failed: ${String(stderr || err.message).trim()}`));
+      else resolve(stdout);
+    });
+  });
+}
+
+function isLocalGitPath(location: string) {
+  return path.isAbsolute(location) && !/^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+}
+
+// Any repository the system `git` can reach: a local/bare repo path or a self-managed remote (ssh/https).
+// Works on a private clone in globalStorage; nothing reaches the remote until `git push` succeeds.
+class GitCliProvider implements RemoteProvider {
+  readonly kind: ProviderKind = 'git';
+  private lastFetch = 0;
+  private fetching: Promise<void> | undefined = undefined;
+  constructor(private readonly remoteUrl: string, private readonly workDir: string) {}
+
+  private git(args: string[]) {
+    return runGit(args, this.workDir);
+  }
+
+  private async tryGit(args: string[]): Promise<string | undefined> {
+    try {
+      return await this.git(args);
+    } catch (e: any) {
+      // Expected for missing paths and branches; logged for everything else
+      log.debug(String(e?.message || e));
+      return undefined;
+    }
+  }
+
+  private treeish(ref: RepoRef) {
+    return ref.commit || `origin/${ref.branch}`;
+  }
+
+  private async fetch(force = false) {
+    if (!force && Date.now() - this.lastFetch < 5000) return;
+    // Parallel reads share one fetch instead of racing on the repository lock
+    this.fetching ??= this.git(['fetch', '-q', '--prune', 'origin'])
+      .then(() => {
+        this.lastFetch = Date.now();
+      })
+      .finally(() => {
+        this.fetching = undefined;
+      });
+    await this.fetching;
+  }
+
+  async getViewerLogin(): Promise<string> {
+    return os.userInfo().username;
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const out = await runGit(['ls-remote', '--symref', this.remoteUrl, 'HEAD'], os.tmpdir()).catch((e) => {
+      log.warn(`Could not read the default branch of ${this.remoteUrl}, assuming "main": ${e?.message || e}`);
+      return '';
+    });
+    return /^ref: refs\/heads\/(\S+)\s+HEAD/m.exec(out)?.[1] || 'main';
+  }
+
+  async ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
+    if (isLocalGitPath(this.remoteUrl) && (await readTextIfExists(path.join(this.remoteUrl, 'HEAD'))) === undefined) {
+      const isWorkTree = (await readTextIfExists(path.join(this.remoteUrl, '.git', 'HEAD'))) !== undefined;
+      if (!isWorkTree) {
+        await ensureDir(this.remoteUrl);
+        await runGit(['init', '-q', '--bare', this.remoteUrl], this.remoteUrl);
+      }
+    }
+    if ((await readTextIfExists(path.join(this.workDir, '.git', 'HEAD'))) === undefined) {
+      await ensureDir(path.dirname(this.workDir));
+      await runGit(['clone', '-q', this.remoteUrl, this.workDir], path.dirname(this.workDir));
+    }
+  }
+
+  async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    await this.fetch();
+    const p = normalizeRepoPath(filePath);
+    const sha = await this.tryGit(['rev-parse', '-q', '--verify', `${this.treeish(ref)}:${p}`]);
+    if (!sha) return undefined;
+    return { content: await this.git(['cat-file', 'blob', sha.trim()]), sha: sha.trim() };
+  }
+
+  async writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    await this.commitFiles(ref, [{ path: filePath, content }], message);
+  }
+
+  async commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    await this.fetch(true);
+    const remoteHead = await this.tryGit(['rev-parse', '-q', '--verify', `origin/${ref.branch}`]);
+    if (remoteHead) {
+      await this.git(['checkout', '-q', '-f', '-B', ref.branch, remoteHead.trim()]);
+    } else {
+      // Empty remote: start the branch from scratch.
+      await this.git(['symbolic-ref', 'HEAD', `refs/heads/${ref.branch}`]);
+      await this.tryGit(['rm', '-rqf', '--cached', '.']);
+    }
+    await this.git(['clean', '-qfd']);
+
+    for (const f of files) {
+      const target = path.join(this.workDir, ...normalizeRepoPath(f.path).split('/').filter(Boolean));
+      if (f.delete) {
+        await fs.rm(target, { force: true });
+        continue;
+      }
+      await ensureDir(path.dirname(target));
+      await fs.writeFile(target, f.content, 'utf8');
+    }
+    await this.git(['add', '-A', '--', ...files.map((f) => normalizeRepoPath(f.path))]);
+    // `diff --cached --quiet` succeeds only when nothing is staged
+    if ((await this.tryGit(['diff', '--cached', '--quiet'])) !== undefined && remoteHead) return;
+
+    const identity = (await this.tryGit(['config', 'user.email']))?.trim()
+      ? []
+      : ['-c', `user.name=${os.userInfo().username}`, '-c', `user.email=${os.userInfo().username}@${os.hostname()}`];
+    await this.git([...identity, 'commit', '-q', '-m', message]);
+    try {
+      await this.git(['push', '-q', 'origin', `HEAD:refs/heads/${ref.branch}`]);
+    } catch (e) {
+      // Drop the local commit; the remote is unchanged (e.g. someone else pushed first).
+      this.lastFetch = 0;
+      if (remoteHead) await this.tryGit(['reset', '-q', '--hard', remoteHead.trim()]);
+      throw e;
+    }
+  }
+
+  async listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    await this.fetch();
+    const out = await this.tryGit(['log', `-n${limit}`, '--format=%H%x1f%an%x1f%aI%x1f%B%x1e', `origin/${ref.branch}`, '--', normalizeRepoPath(dirPath)]);
+    return (out || '')
+      .split('\x1e')
+      .map((rec) => rec.trim())
+      .filter(Boolean)
+      .map((rec) => {
+        const [sha, author, date, message] = rec.split('\x1f');
+        return { sha, author, date, message: message.trim() };
+      });
+  }
+
+  async getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    const out = await this.git(['diff-tree', '--root', '--no-commit-id', '--name-status', '-r', sha]);
+    return out
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const parts = line.split('\t');
+        return { path: parts[parts.length - 1], status: toCommitFileStatus(parts[0]) };
+      });
+  }
+
+  async getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    const name = branch || (await this.getDefaultBranch(owner, repo));
+    // Fails when the remote is unreachable or the credentials are rejected; the error says which
+    const heads = await runGit(['ls-remote', '--heads', this.remoteUrl, name], os.tmpdir());
+    return {
+      exists: true,
+      // Push rights of a remote URL only show on push; a local path can be checked directly
+      canWrite: isLocalGitPath(this.remoteUrl) ? await isWritable(this.remoteUrl) : undefined,
+      branch: name,
+      branchExists: heads.trim() !== ''
+    };
+  }
+
+  async listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    await this.fetch();
+    const p = normalizeRepoPath(dirPath).replace(/\/+$/, '');
+    const out = await this.tryGit(['ls-tree', this.treeish(ref), ...(p ? ['--', `${p}/`] : [])]);
+    if (!out) return [];
+    return out
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        const [info, entryPath] = line.split('\t');
+        return { path: entryPath, type: info.split(' ')[1] === 'tree' ? 'dir' : 'file' };
+      });
+  }
+}
+
+// Wraps another provider: encrypts file contents on write and decrypts on read.
+// meta.json stays plaintext so display names and the encryption header remain readable.
+class EncryptingProvider implements RemoteProvider {
+  readonly kind: ProviderKind;
+  constructor(private readonly inner: RemoteProvider, private readonly key: Buffer) {
+    this.kind = inner.kind;
+  }
+
+  private isPlain(filePath: string) {
+    return path.posix.basename(normalizeRepoPath(filePath)) === 'meta.json';
+  }
+
+  getViewerLogin(): Promise<string> {
+    return this.inner.getViewerLogin();
+  }
+
+  getDefaultBranch(owner: string, repo: string): Promise<string> {
+    return this.inner.getDefaultBranch(owner, repo);
+  }
+
+  ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
+    return this.inner.ensureRepo(owner, repo, isPrivate);
+  }
+
+  async readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    const file = await this.inner.readFile(ref, filePath);
+    // Files written before encryption was turned on are still plaintext.
+    if (!file || this.isPlain(filePath) || !file.content.startsWith(ENCRYPTED_PREFIX)) return file;
+    return { ...file, content: decryptText(this.key, file.content) };
+  }
+
+  writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    return this.inner.writeFile(ref, filePath, this.isPlain(filePath) ? content : encryptText(this.key, content), message);
+  }
+
+  commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    const encrypted = files.map((f) => (f.delete || this.isPlain(f.path) ? f : { ...f, content: encryptText(this.key, f.content) }));
+    return this.inner.commitFiles(ref, encrypted, message);
+  }
+
+  listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    return this.inner.listCommits(ref, dirPath, limit);
+  }
+
+  getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    return this.inner.getCommitFiles(ref, sha);
+  }
+
+  getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    return this.inner.getRepoAccess(owner, repo, branch);
+  }
+
+  listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    return this.inner.listDir(ref, dirPath);
+  }
+}
+
+// Sync log (Output > Sync VSCode Settings). The level follows "Developer: Set Log Level...".
+const log = vscode.window.createOutputChannel('Sync VSCode Settings', { log: true });
+
+// Wraps a provider and logs every call: reads at debug, writes at info, failures at warn.
+// File contents are never logged.
+class LoggingProvider implements RemoteProvider {
+  readonly kind: ProviderKind;
+  constructor(private readonly inner: RemoteProvider, private readonly target: string) {
+    this.kind = inner.kind;
+  }
+
+  private async call<T>(level: 'debug' | 'info', what: string, run: () => Promise<T>, describe?: (result: T) => string): Promise<T> {
+    const started = Date.now();
+    try {
+      const result = await run();
+      log[level](`${this.target} ${what}${describe ? ` -> ${describe(result)}` : ''} (${Date.now() - started} ms)`);
+      return result;
+    } catch (e: any) {
+      const message = `${this.target} ${what} failed (${Date.now() - started} ms): ${e?.message || e}`;
+      // Callers probe for missing files and repos with 404s
+      if (isHttpStatus(e, 404)) log.debug(message);
+      else log.warn(message);
+      throw e;
+    }
+  }
+
+  getViewerLogin(): Promise<string> {
+    return this.call('debug', 'getViewerLogin', () => this.inner.getViewerLogin(), (login) => login);
+  }
+
+  getDefaultBranch(owner: string, repo: string): Promise<string> {
+    return this.call('debug', `getDefaultBranch ${owner}/${repo}`, () => this.inner.getDefaultBranch(owner, repo), (branch) => branch);
+  }
+
+  ensureRepo(owner: string, repo: string, isPrivate: boolean): Promise<void> {
+    return this.call('info', `ensureRepo ${owner}/${repo}`, () => this.inner.ensureRepo(owner, repo, isPrivate));
+  }
+
+  readFile(ref: RepoRef, filePath: string): Promise<RemoteFile | undefined> {
+    return this.call(
+      'debug',
+      `readFile ${filePath}@${readRevision(ref)}`,
+      () => this.inner.readFile(ref, filePath),
+      (file) => (file ? `${file.content.length} chars` : 'not found')
+    );
+  }
+
+  writeFile(ref: RepoRef, filePath: string, content: string, message: string): Promise<void> {
+    return this.call('info', `writeFile ${filePath}@${ref.branch}`, () => this.inner.writeFile(ref, filePath, content, message));
+  }
+
+  commitFiles(ref: RepoRef, files: FileChange[], message: string): Promise<void> {
+    const changes = files.map((f) => `${f.delete ? '-' : '+'}${f.path}`).join(' ');
+    return this.call('info', `commitFiles @${ref.branch} "${message}": ${changes}`, () => this.inner.commitFiles(ref, files, message));
+  }
+
+  listDir(ref: RepoRef, dirPath: string): Promise<Array<{ path: string; type: 'file' | 'dir' }>> {
+    return this.call('debug', `listDir ${dirPath}@${readRevision(ref)}`, () => this.inner.listDir(ref, dirPath), (items) => `${items.length} entries`);
+  }
+
+  listCommits(ref: RepoRef, dirPath: string, limit: number): Promise<CommitInfo[]> {
+    return this.call(
+      'debug',
+      `listCommits ${dirPath}@${ref.branch}`,
+      () => this.inner.listCommits(ref, dirPath, limit),
+      (commits) => `${commits.length} commits`
+    );
+  }
+
+  getCommitFiles(ref: RepoRef, sha: string): Promise<CommitFile[]> {
+    return this.call('debug', `getCommitFiles ${sha.slice(0, 7)}`, () => this.inner.getCommitFiles(ref, sha), (files) => `${files.length} files`);
+  }
+
+  getRepoAccess(owner: string, repo: string, branch?: string): Promise<RepoAccess> {
+    return this.call(
+      'debug',
+      `getRepoAccess ${owner}/${repo}`,
+      () => this.inner.getRepoAccess(owner, repo, branch),
+      (access) => JSON.stringify(access)
+    );
+  }
+}
+
+function getConfig() {
+  return vscode.workspace.getConfiguration('syncVsCodeSettings');
+}
+
+type SyncState = 'unknown' | 'in-sync' | 'local-changes' | 'remote-newer' | 'error';
+
+const SYNC_STATE_DISPLAY: Record<SyncState, { icon: string; label?: string; background?: string }> = {
+  unknown: { icon: '$(sync)' },
+  'in-sync': { icon: '$(sync)', label: 'In sync' },
+  'local-changes': { icon: '$(cloud-upload)', label: 'Local changes not uploaded yet' },
+  'remote-newer': { icon: '$(cloud-download)', label: 'Remote update available, click to download', background: 'statusBarItem.warningBackground' },
+  error: { icon: '$(sync-ignored)', label: 'Could not check the remote profile', background: 'statusBarItem.errorBackground' }
+};
+
+class StatusBarController {
+  private busyCount = 0;
+  // Operations run one at a time, so a background sync never overlaps a manual one.
+  private queue: Promise<unknown> = Promise.resolve();
+  private state: SyncState = 'unknown';
+  private detail: string | undefined = undefined;
+  private readonly finished = new vscode.EventEmitter<void>();
+  // Fires after every operation run through run(), successful or not
+  readonly onDidFinish = this.finished.event;
+  constructor(private readonly item: vscode.StatusBarItem) {}
+
+  get isBusy() {
+    return this.busyCount > 0;
+  }
+
+  setState(state: SyncState, detail?: string) {
+    this.state = state;
+    this.detail = detail;
+    if (!this.isBusy) this.setIdle();
+  }
+
+  setIdle() {
+    const display = SYNC_STATE_DISPLAY[this.state];
+    this.item.text = display.icon;
+    this.item.tooltip = ['同步vscode配置', display.label, this.detail].filter(Boolean).join('\n');
+    this.item.backgroundColor = display.background ? new vscode.ThemeColor(display.background) : undefined;
+    this.item.command = this.state === 'remote-newer' ? 'syncVsCodeSettings.download' : 'syncVsCodeSettings.statusBarMenu';
+  }
+
+  setBusy(label?: string) {
+    this.item.text = '$(sync~spin)';
+    this.item.tooltip = ['同步vscode配置', label].filter(Boolean).join('\n');
+    this.item.backgroundColor = undefined;
+  }
+
+  async run<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    this.busyCount += 1;
+    this.setBusy(label);
+    const task = this.queue.then(() => fn());
+    this.queue = task.catch(() => undefined);
+    try {
+      return await task;
+    } finally {
+      this.busyCount -= 1;
+      if (this.busyCount <= 0) {
+        this.busyCount = 0;
+        this.setIdle();
+      } else {
+        this.setBusy();
+      }
+      this.finished.fire();
+    }
+  }
+}
+
+const MEMORY_SCHEME = 'syncvscodesettings';
+
+// Read-only in-memory documents (remote file contents, conflict views) for diff editors.
+class MemoryDocumentProvider implements vscode.TextDocumentContentProvider {
+  private readonly docs = new Map<string, string>();
+  private readonly emitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.emitter.event;
+
+  set(name: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: MEMORY_SCHEME, path: `/${name}` });
+    this.docs.set(uri.toString(), content);
+    this.emitter.fire(uri);
+    return uri;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.docs.get(uri.toString()) ?? '';
+  }
+}
+
+const memoryDocs = new MemoryDocumentProvider();
+
+async function openStatusBarMenu(context: vscode.ExtensionContext) {
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '$(key) Configure', command: 'syncVsCodeSettings.configure' },
+      { label: '$(git-branch) Switch Profile', command: 'syncVsCodeSettings.switchProfile' },
+      { label: '$(mirror) Manage Remote Targets', command: 'syncVsCodeSettings.manageRemotes' },
+      { label: '$(cloud-upload) Upload', command: 'syncVsCodeSettings.upload' },
+      { label: '$(cloud-download) Download', command: 'syncVsCodeSettings.download' },
+      { label: '$(diff) Preview Changes', command: 'syncVsCodeSettings.previewChanges' },
+      { label: '$(history) Show Profile History', command: 'syncVsCodeSettings.showProfileHistory' },
+      { label: '$(list-flat) Show Sync History', command: 'syncVsCodeSettings.showSyncHistory' },
+      { label: '$(discard) Restore Local Backup', command: 'syncVsCodeSettings.restoreLocalBackup' },
+      { label: '$(list-unordered) Manage Profiles', command: 'syncVsCodeSettings.manageProfiles' },
+      { label: '$(checklist) Choose What to Sync', command: 'syncVsCodeSettings.selectSyncedItems' },
+      { label: '$(link) Link VS Code Profile', command: 'syncVsCodeSettings.linkVsCodeProfile' },
+      { label: '$(export) Export Profile to File', command: 'syncVsCodeSettings.exportProfile' },
+      { label: '$(desktop-download) Import Profile from File', command: 'syncVsCodeSettings.importProfile' },
+      { label: '$(pulse) Run Diagnostics', command: 'syncVsCodeSettings.runDiagnostics' },
+      { label: '$(sign-out) Sign Out', command: 'syncVsCodeSettings.signOut' }
+    ],
+    { placeHolder: 'Sync VSCode Settings' }
+  );
+  if (!pick) return;
+  await vscode.commands.executeCommand(pick.command);
+}
+
+function inferUserDataDirFromProcessArgs(): string | undefined {
+  const idx = process.argv.findIndex((a) => a === '--user-data-dir');
+  if (idx >= 0 && process.argv[idx + 1]) return process.argv[idx + 1];
+  const prefixed = process.argv.find((a) => a.startsWith('--user-data-dir='));
+  if (prefixed) return prefixed.split('=')[1];
+  return undefined;
+}
+
+type Marketplace = 'microsoft' | 'open-vsx' | 'other' | 'none';
+
+// The parts of this build's product.json that decide where its data lives and where extensions come from.
+type ProductInfo = {
+  // Name of the user data folder, e.g. "Code - Insiders", "VSCodium"
+  nameShort: string;
+  // Folder in the home dir holding argv.json and extensions, e.g. ".vscode-oss"
+  dataFolderName: string;
+  marketplace: Marketplace;
+  galleryUrl?: string;
+};
+
+// Used when product.json can't be read; keyed by vscode.env.appName.
+const KNOWN_PRODUCTS: Record<string, ProductInfo> = {
+  'Visual Studio Code': { nameShort: 'Code', dataFolderName: '.vscode', marketplace: 'microsoft' },
+  'Visual Studio Code - Insiders': { nameShort: 'Code - Insiders', dataFolderName: '.vscode-insiders', marketplace: 'microsoft' },
+  VSCodium: { nameShort: 'VSCodium', dataFolderName: '.vscode-oss', marketplace: 'open-vsx', galleryUrl: 'https://open-vsx.org/vscode/gallery' },
+  'VSCodium - Insiders': {
+    nameShort: 'VSCodium - Insiders',
+    dataFolderName: '.vscodium-insiders',
+    marketplace: 'open-vsx',
+    galleryUrl: 'https://open-vsx.org/vscode/gallery'
+  },
+  'Code - OSS': { nameShort: 'Code - OSS', dataFolderName: '.vscode-oss', marketplace: 'none' },
+  Cursor: { nameShort: 'Cursor', dataFolderName: '.cursor', marketplace: 'other' },
+  Windsurf: { nameShort: 'Windsurf', dataFolderName: '.windsurf', marketplace: 'other' }
+};
+
+function marketplaceOf(galleryUrl: string | undefined): Marketplace {
+  if (!galleryUrl) return 'none';
+  const host = new URL(galleryUrl).hostname;
+  if (host.endsWith('marketplace.visualstudio.com')) return 'microsoft';
+  if (host.endsWith('open-vsx.org')) return 'open-vsx';
+  return 'other';
+}
+
+let productInfo: Promise<ProductInfo> | undefined = undefined;
+
+function getProductInfo(): Promise<ProductInfo> {
+  productInfo ??= (async () => {
+    const product = safeJsonParse<any>((await readTextIfExists(path.join(vscode.env.appRoot, 'product.json'))) ?? '', undefined);
+    if (!product?.nameShort || !product?.dataFolderName) return KNOWN_PRODUCTS[vscode.env.appName] ?? KNOWN_PRODUCTS['Visual Studio Code'];
+    const galleryUrl: string | undefined = product.extensionsGallery?.serviceUrl;
+    return { nameShort: product.nameShort, dataFolderName: product.dataFolderName, marketplace: marketplaceOf(galleryUrl), galleryUrl };
+  })();
+  return productInfo;
+}
+
+// Set once on activation from the extension context.
+const host = {
+  // <user data dir>/User, derived from globalStorageUri (<user data dir>/User/globalStorage/<extension id>)
+  userDir: undefined as string | undefined,
+  // Remote name (wsl, ssh-remote, codespaces, ...) when this extension runs in the remote extension host
+  remoteName: undefined as string | undefined
+};
+
+function initHost(context: vscode.ExtensionContext) {
+  const storage = context.globalStorageUri;
+  if (storage.scheme === 'file' && path.basename(path.dirname(path.dirname(storage.fsPath))) === 'User') {
+    host.userDir = path.dirname(path.dirname(storage.fsPath));
+  }
+  if (vscode.env.remoteName && context.extension.extensionKind === vscode.ExtensionKind.Workspace) host.remoteName = vscode.env.remoteName;
+}
+
+async function defaultUserDataDir(): Promise<string> {
+  const { nameShort } = await getProductInfo();
+  const platform = process.platform;
+  if (process.env.VSCODE_PORTABLE) return path.join(process.env.VSCODE_PORTABLE, 'user-data');
+  if (platform === 'darwin') return path.join(os.homedir(), 'Library', 'Application Support', nameShort);
+  if (platform === 'win32') return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), nameShort);
+  // linux; Flatpak keeps its config under ~/.var/app/<id>, snaps may point XDG_CONFIG_HOME into their private dir
+  let configHome = process.env.XDG_CONFIG_HOME;
+  if (process.env.SNAP_USER_DATA && configHome?.startsWith(process.env.SNAP_USER_DATA)) configHome = undefined;
+  if (!configHome && process.env.FLATPAK_ID) configHome = path.join(os.homedir(), '.var', 'app', process.env.FLATPAK_ID, 'config');
+  return path.join(configHome || path.join(os.homedir(), '.config'), nameShort);
+}
+
+async function getLocalUserDir(): Promise<string> {
+  const override = String(getConfig().get('localUserDataDir') || '').trim();
+  if (override) return path.join(override, 'User');
+  if (host.remoteName) {
+    throw new Error(
+      `Sync VSCode Settings is running on the remote host (${host.remoteName}), where your local VS Code user data does not exist. ` +
+        'Remove it from "remote.extensionKind" so it runs locally, or set syncVsCodeSettings.localUserDataDir.'
+    );
+  }
+  const fromArgs = inferUserDataDirFromProcessArgs();
+  if (fromArgs) return path.join(fromArgs, 'User');
+  return host.userDir ?? path.join(await defaultUserDataDir(), 'User');
+}
+
+// Where this machine keeps the synced files of the current profile.
+type LocalProfilePaths = {
+  // The User dir, or User/profiles/<location> when linked to a VS Code profile
+  dir: string;
+  argvPath: string;
+};
+
+// argv.json sits in the portable data folder, or in the product's data folder in the home dir (~/.vscode, ~/.vscode-oss, ...).
+async function getLocalArgvPath(): Promise<string> {
+  if (process.env.VSCODE_PORTABLE) return path.join(process.env.VSCODE_PORTABLE, 'argv.json');
+  return path.join(os.homedir(), (await getProductInfo()).dataFolderName, 'argv.json');
+}
+
+async function getLocalProfilePaths(context: vscode.ExtensionContext): Promise<LocalProfilePaths> {
+  const userDir = await getLocalUserDir();
+  const profileId = context.globalState.get<string>(STATE_KEYS.profileId);
+  const location = profileId ? context.globalState.get<Record<string, string>>(STATE_KEYS.nativeProfiles)?.[profileId] : undefined;
+  return { dir: location ? path.join(userDir, 'profiles', location) : userDir, argvPath: await getLocalArgvPath() };
+}
+
+function localFilePath(local: LocalProfilePaths, name: string) {
+  return name === 'argv.json' ? local.argvPath : path.join(local.dir, ...name.split('/'));
+}
+
+async function readTextIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return undefined;
+    throw e;
+  }
+}
+
+async function ensureDir(dirPath: string): Promise<void> {
+  await fs.mkdir(dirPath, { recursive: true });
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  return (await fs.stat(dirPath).catch(() => undefined))?.isDirectory() ?? false;
+}
+
+async function isWritable(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function baseSnapshotPath(context: vscode.ExtensionContext, profileId: string, fileName: string) {
+  return path.join(context.globalStorageUri.fsPath, 'base', profileId, fileName);
+}
+
+// The last-synced content of a file; used as the common ancestor for the next download merge.
+async function readBaseSnapshot(context: vscode.ExtensionContext, profileId: string, fileName: string) {
+  return await readTextIfExists(baseSnapshotPath(context, profileId, fileName));
+}
+
+async function writeBaseSnapshot(context: vscode.ExtensionContext, profileId: string, fileName: string, content: string) {
+  const p = baseSnapshotPath(context, profileId, fileName);
+  await ensureDir(path.dirname(p));
+  await fs.writeFile(p, content, 'utf8');
+}
+
+// name -> sha256 of each synced file as it was on this machine after the last upload/download. A file listed
+// here but missing on one side was deleted there, rather than never synced to it.
+async function readSyncedState(context: vscode.ExtensionContext, profileId: string): Promise<Record<string, string>> {
+  return safeJsonParse<Record<string, string>>((await readBaseSnapshot(context, profileId, 'synced.json')) ?? '', {});
+}
+
+async function writeSyncedState(context: vscode.ExtensionContext, profileId: string, files: Map<string, string>) {
+  await writeBaseSnapshot(context, profileId, 'synced.json', JSON.stringify(hashFiles(files), null, 2) + '\n');
+}
+
+// Ids (lower case) of the extensions in the profile after the last upload/download. Only these are uninstalled when
+// they disappear remotely; extensions installed here since then were never synced.
+async function readSyncedExtensions(context: vscode.ExtensionContext, profileId: string): Promise<Set<string>> {
+  return new Set(safeJsonParse<string[]>((await readBaseSnapshot(context, profileId, 'synced-extensions.json')) ?? '', []));
+}
+
+async function writeSyncedExtensions(context: vscode.ExtensionContext, profileId: string, snapshot: ExtensionsSnapshot) {
+  const ids = snapshot.extensions.filter((e) => !e.isBuiltin).map((e) => e.id.toLowerCase());
+  await writeBaseSnapshot(context, profileId, 'synced-extensions.json', JSON.stringify(ids.sort(), null, 2) + '\n');
+}
+
+// Older versions kept a single lastSyncAt; it belongs to the profile that was current then.
+function readLastSyncTimes(context: vscode.ExtensionContext): Record<string, string> {
+  const stored = context.globalState.get<string | Record<string, string>>(STATE_KEYS.lastSyncAt);
+  if (typeof stored !== 'string') return { ...stored };
+  const current = context.globalState.get<string>(STATE_KEYS.profileId);
+  return current ? { [current]: stored } : {};
+}
+
+function getLastSyncAt(context: vscode.ExtensionContext, profileId: string | undefined): string | undefined {
+  return profileId ? readLastSyncTimes(context)[profileId] : undefined;
+}
+
+async function setLastSyncAt(context: vscode.ExtensionContext, profileId: string, at: string) {
+  await context.globalState.update(STATE_KEYS.lastSyncAt, { ...readLastSyncTimes(context), [profileId]: at });
+}
+
+async function listDirFiles(dirPath: string): Promise<string[]> {
+  try {
+    const ents = await fs.readdir(dirPath, { withFileTypes: true });
+    return ents.filter((e) => e.isFile()).map((e) => path.join(dirPath, e.name));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight; results keep the input order.
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function safeJsonParse<T>(s: string, fallback: T): T {
+  try {
+    return JSON.parse(s) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(',')}]`;
+  if (v && typeof v === 'object') {
+    const o = v as Record<string, unknown>;
+    return `{${Object.keys(o)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(o[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(v) ?? 'undefined';
+}
+
+function jsonEquals(a: unknown, b: unknown) {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function jsoncFormatting(text: string): jsonc.FormattingOptions {
+  const indent = /\n([ \t]+)\S/.exec(text)?.[1] ?? '  ';
+  return {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol: text.includes('\r\n') ? '\r\n' : '\n'
+  };
+}
+
+function jsoncSet(text: string, jsonPath: jsonc.JSONPath, value: unknown, isArrayInsertion = false): string {
+  const edits = jsonc.modify(text, jsonPath, value, { formattingOptions: jsoncFormatting(text), isArrayInsertion });
+  return jsonc.applyEdits(text, edits);
+}
+
+function parseJsoncObject(text: string | undefined): Record<string, unknown> {
+  const v = text ? jsonc.parse(text, [], { allowTrailingComma: true }) : undefined;
+  return v && typeof v === 'object' && !Array.isArray(v) ? v : {};
+}
+
+function parseJsoncArray(text: string | undefined): unknown[] {
+  const v = text ? jsonc.parse(text, [], { allowTrailingComma: true }) : undefined;
+  return Array.isArray(v) ? v : [];
+}
+
+function globToRegExp(glob: string) {
+  const re = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${re}$`);
+}
+
+// Matcher for `syncVsCodeSettings.ignoredSettings`: machine-local keys that never leave / get overwritten on this machine.
+function ignoredSettingsMatcher(): (key: string) => boolean {
+  const patterns = (getConfig().get<string[]>('ignoredSettings') || []).map((p) => String(p).trim()).filter(Boolean);
+  const regexps = patterns.map(globToRegExp);
+  return (key) => regexps.some((re) => re.test(key));
+}
+
+// Removes ignored top-level keys via text edits, so comments and formatting survive.
+function stripIgnoredSettings(text: string, isIgnored: (key: string) => boolean): string {
+  for (const key of Object.keys(parseJsoncObject(text))) {
+    if (isIgnored(key)) text = jsoncSet(text, [key], undefined);
+  }
+  return text;
+}
+
+type MergePlan = {
+  // Remote-side changes that apply cleanly; undefined value => delete locally.
+  apply: Map<string, unknown>;
+  conflicts: Array<{ key: string; local: unknown; remote: unknown }>;
+};
+
+export function threeWayMerge(base: Map<string, unknown>, local: Map<string, unknown>, remote: Map<string, unknown>): MergePlan {
+  const plan: MergePlan = { apply: new Map(), conflicts: [] };
+  const keys = new Set([...base.keys(), ...local.keys(), ...remote.keys()]);
+  for (const key of keys) {
+    const b = base.get(key);
+    const l = local.get(key);
+    const r = remote.get(key);
+    if (jsonEquals(l, r) || jsonEquals(r, b)) continue;
+    if (jsonEquals(l, b)) plan.apply.set(key, r);
+    else plan.conflicts.push({ key, local: l, remote: r });
+  }
+  return plan;
+}
+
+export function settingsEntries(text: string | undefined) {
+  return new Map(Object.entries(parseJsoncObject(text)));
+}
+
+export function applySettingsMerge(localText: string, changes: Map<string, unknown>): string {
+  let text = localText.trim() ? localText : '{}\n';
+  for (const [key, value] of changes) text = jsoncSet(text, [key], value);
+  return text;
+}
+
+function keybindingId(k: any) {
+  return `${k?.key ?? ''}\u0000${k?.command ?? ''}\u0000${k?.when ?? ''}`;
+}
+
+export function keybindingEntries(text: string | undefined) {
+  return new Map(parseJsoncArray(text).map((k) => [keybindingId(k), k] as [string, unknown]));
+}
+
+export function applyKeybindingsMerge(localText: string, changes: Map<string, unknown>): string {
+  let text = localText.trim() ? localText : '[]\n';
+  const indexById = new Map(parseJsoncArray(text).map((k, i) => [keybindingId(k), i] as [string, number]));
+
+  // Edit in place from the end so earlier indexes stay valid, then append new entries.
+  const inPlace = [...changes].filter(([id]) => indexById.has(id)).sort((a, b) => indexById.get(b[0])! - indexById.get(a[0])!);
+  for (const [id, value] of inPlace) text = jsoncSet(text, [indexById.get(id)!], value);
+  for (const [id, value] of changes) {
+    if (!indexById.has(id) && value !== undefined) text = jsoncSet(text, [-1], value, true);
+  }
+  return text;
+}
+
+function describeConflictValue(v: unknown) {
+  return v === undefined ? '(deleted)' : JSON.stringify(v);
+}
+
+// Shows local vs remote for the conflicting keys side by side and lets the user pick a side per key.
+// Returns the remote values to apply, or undefined if the user cancelled.
+async function resolveConflicts(
+  fileName: string,
+  conflicts: MergePlan['conflicts'],
+  describeKey: (key: string) => string
+): Promise<Map<string, unknown> | undefined> {
+  const localView: Record<string, unknown> = {};
+  const remoteView: Record<string, unknown> = {};
+  for (const c of conflicts) {
+    localView[describeKey(c.key)] = c.local ?? '(deleted)';
+    remoteView[describeKey(c.key)] = c.remote ?? '(deleted)';
+  }
+  const left = memoryDocs.set(`conflicts/local/${fileName}`, JSON.stringify(localView, null, 2) + '\n');
+  const right = memoryDocs.set(`conflicts/remote/${fileName}`, JSON.stringify(remoteView, null, 2) + '\n');
+  await vscode.commands.executeCommand('vscode.diff', left, right, `${fileName}: Local ↔ Remote (${conflicts.length} conflicts)`, {
+    preview: true
+  });
+
+  const resolved = new Map<string, unknown>();
+  let all: 'local' | 'remote' | undefined = undefined;
+  for (const [i, c] of conflicts.entries()) {
+    let side = all;
+    if (!side) {
+      const pick = await vscode.window.showQuickPick(
+        [
+          { label: '$(arrow-left) Keep local', detail: describeConflictValue(c.local), side: 'local' as const },
+          { label: '$(arrow-right) Take remote', detail: describeConflictValue(c.remote), side: 'remote' as const },
+          { label: 'Keep local for all remaining', side: 'local' as const, all: true },
+          { label: 'Take remote for all remaining', side: 'remote' as const, all: true }
+        ],
+        { placeHolder: `${fileName} conflict ${i + 1}/${conflicts.length}: ${describeKey(c.key)}`, ignoreFocusOut: true }
+      );
+      if (!pick) return undefined;
+      side = pick.side;
+      if (pick.all) all = pick.side;
+    }
+    if (side === 'remote') resolved.set(c.key, c.remote);
+  }
+  return resolved;
+}
+
+// Three-way merge of base/local/remote. Non-conflicting remote changes are applied automatically,
+// conflicts go through resolveConflicts. Returns the new local text, or undefined if cancelled.
+async function mergeLocalFile(opts: {
+  fileName: string;
+  base: string | undefined;
+  local: string | undefined;
+  remote: string;
+  entries: (text: string | undefined) => Map<string, unknown>;
+  apply: (localText: string, changes: Map<string, unknown>) => string;
+  describeKey: (key: string) => string;
+}): Promise<string | undefined> {
+  if (opts.local === undefined) return opts.remote;
+
+  const plan = threeWayMerge(opts.entries(opts.base), opts.entries(opts.local), opts.entries(opts.remote));
+  if (plan.conflicts.length) {
+    const resolved = await resolveConflicts(opts.fileName, plan.conflicts, opts.describeKey);
+    if (!resolved) return undefined;
+    for (const [key, value] of resolved) plan.apply.set(key, value);
+  }
+  return plan.apply.size ? opts.apply(opts.local, plan.apply) : opts.local;
+}
+
+function describeKeybindingId(id: string) {
+  const [key, command, when] = id.split('\u0000');
+  return `${key} → ${command}${when ? ` (when ${when})` : ''}`;
+}
+
+// Matcher for `syncVsCodeSettings.extensions.ignored`; this extension itself is never synced.
+function ignoredExtensionsMatcher(): (id: string) => boolean {
+  const patterns = (getConfig().get<string[]>('extensions.ignored') || []).map((p) => String(p).trim().toLowerCase()).filter(Boolean);
+  const regexps = [EXTENSION_ID, ...patterns].map(globToRegExp);
+  return (id) => regexps.some((re) => re.test(id.toLowerCase()));
+}
+
+// `vscode.extensions.all` only lists enabled extensions. The extensions folder's extensions.json
+// also knows disabled ones and the "pinned" flag, so merge both.
+async function readInstalledExtensionsManifest(): Promise<Array<{ id: string; version?: string; pinned: boolean }>> {
+  const self = vscode.extensions.getExtension(EXTENSION_ID);
+  if (!self) return [];
+  const text = await readTextIfExists(path.join(path.dirname(self.extensionPath), 'extensions.json'));
+  const entries = safeJsonParse<any[]>(text ?? '[]', []);
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((x) => x?.identifier?.id)
+    .map((x) => ({ id: String(x.identifier.id), version: x.version, pinned: Boolean(x.metadata?.pinned) }));
+}
+
+async function snapshotExtensions(): Promise<ExtensionsSnapshot> {
+  const isIgnored = ignoredExtensionsMatcher();
+  const installed = await readInstalledExtensionsManifest();
+  const pinned = new Set(installed.filter((x) => x.pinned).map((x) => x.id.toLowerCase()));
+
+  const exts: ExtensionEntry[] = vscode.extensions.all
     .map((e) => ({
       id: e.id,
       version: e.packageJSON?.version as string | undefined,
-      isBuiltin: Boolean(e.packageJSON?.isBuiltin)
+      isBuiltin: Boolean(e.packageJSON?.isBuiltin),
+      enabled: true
     }))
     .filter((e) => !e.isBuiltin);
 
-  return {
-    schemaVersion: 1,
-    generatedAt: nowIso(),
-    extensions: exts.sort((a, b) => a.id.localeCompare(b.id))
+  const enabledIds = new Set(exts.map((e) => e.id.toLowerCase()));
+  for (const x of installed) {
+    if (!enabledIds.has(x.id.toLowerCase())) exts.push({ id: x.id, version: x.version, isBuiltin: false, enabled: false });
+  }
+  for (const e of exts) {
+    if (pinned.has(e.id.toLowerCase()) && e.version) e.pinnedVersion = e.version;
+  }
+
+  return {
+    schemaVersion: 1,
+    generatedAt: nowIso(),
+    extensions: exts.filter((e) => !isIgnored(e.id)).sort((a, b) => a.id.localeCompare(b.id))
+  };
+}
+
+type ExtensionAction = 'install' | 'uninstall' | 'update' | 'skip';
+
+// `vsix`: install from this local package instead of the marketplace (bundle imports)
+// `enablement`: enabled/disabled differently on the remote. VS Code has no API to change that, so it is only pointed out.
+type ExtensionPlanItem = { id: string; action: ExtensionAction; version?: string; reason: string; vsix?: string; enablement?: 'enable' | 'disable' };
+
+// Compares the remote snapshot with what is installed here. Ignored extensions never show up; local extensions
+// missing remotely are only uninstalled when they are in `synced` (see readSyncedExtensions).
+export async function planExtensionSync(remote: ExtensionsSnapshot, synced: ReadonlySet<string>, vsixFiles?: Map<string, string>): Promise<ExtensionPlanItem[]> {
+  // An empty/unreadable snapshot must not turn into "uninstall everything".
+  if (!remote.extensions.length) return [];
+  const isIgnored = ignoredExtensionsMatcher();
+  const local = new Map((await snapshotExtensions()).extensions.map((e) => [e.id.toLowerCase(), e]));
+  const plan: ExtensionPlanItem[] = [];
+
+  for (const r of remote.extensions) {
+    if (r.isBuiltin || isIgnored(r.id)) continue;
+    const l = local.get(r.id.toLowerCase());
+    const remoteEnabled = r.enabled !== false;
+    // A freshly installed extension comes up enabled
+    const enablement = remoteEnabled === (l ? l.enabled !== false : true) ? undefined : remoteEnabled ? 'enable' : 'disable';
+    if (!l) {
+      plan.push({ id: r.id, action: 'install', version: r.pinnedVersion, reason: r.pinnedVersion ? `pinned ${r.pinnedVersion}` : 'not installed', enablement });
+    } else if (r.pinnedVersion && l.version !== r.pinnedVersion) {
+      plan.push({ id: r.id, action: 'update', version: r.pinnedVersion, reason: `${l.version ?? '?'} → pinned ${r.pinnedVersion}`, enablement });
+    } else {
+      plan.push({ id: r.id, action: 'skip', reason: 'up to date', enablement });
+    }
+  }
+
+  const remoteIds = new Set(remote.extensions.map((e) => e.id.toLowerCase()));
+  for (const l of local.values()) {
+    if (remoteIds.has(l.id.toLowerCase())) continue;
+    if (synced.has(l.id.toLowerCase())) plan.push({ id: l.id, action: 'uninstall', reason: 'removed remotely' });
+    else plan.push({ id: l.id, action: 'skip', reason: 'only installed here' });
+  }
+  for (const x of plan) {
+    const vsix = vsixFiles?.get(x.id.toLowerCase());
+    if (vsix && (x.action === 'install' || x.action === 'update')) Object.assign(x, { vsix, reason: `${x.reason}, bundled .vsix` });
+  }
+  return await markUnavailableExtensions(plan);
+}
+
+// Installs go through this build's own marketplace. Open VSX does not carry everything the Microsoft Marketplace
+// does, so check there first and turn missing extensions/versions into skips instead of failed installs.
+async function markUnavailableExtensions(plan: ExtensionPlanItem[]): Promise<ExtensionPlanItem[]> {
+  const product = await getProductInfo();
+  const unavailable = new Map<string, string>();
+  const installs = plan.filter((x) => (x.action === 'install' || x.action === 'update') && !x.vsix);
+  if (product.marketplace === 'none') {
+    for (const x of installs) unavailable.set(x.id, 'no extension marketplace configured');
+  }
+  const origin = product.marketplace === 'open-vsx' ? urlOrigin(product.galleryUrl) : undefined;
+  if (origin) {
+    await mapLimit(installs, REMOTE_PARALLELISM, async (x) => {
+      const dot = x.id.indexOf('.');
+      const [namespace, name] = [x.id.slice(0, dot), x.id.slice(dot + 1)];
+      const version = x.version ? `/${encodeURIComponent(x.version)}` : '';
+      const url = `${origin}/api/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}${version}`;
+      // Network errors and timeouts are left to the install itself
+      const res = await fetchWithTimeout(url, {}).catch(() => undefined);
+      if (res?.status === 404) unavailable.set(x.id, x.version ? `${x.version} not on Open VSX` : 'not on Open VSX');
+    });
+  }
+  if (!unavailable.size) return plan;
+
+  return plan.map((x) =>
+    (x.action === 'install' || x.action === 'update') && unavailable.has(x.id)
+      ? { ...x, action: 'skip', reason: unavailable.get(x.id)!, enablement: x.action === 'install' ? undefined : x.enablement }
+      : x
+  );
+}
+
+const EXTENSION_ACTION_ICONS: Record<ExtensionAction, string> = {
+  install: '$(cloud-download)',
+  uninstall: '$(trash)',
+  update: '$(arrow-swap)',
+  skip: '$(check)'
+};
+
+// Lets the user untick actions before anything is executed. undefined => cancelled.
+async function confirmExtensionPlan(plan: ExtensionPlanItem[]): Promise<ExtensionPlanItem[] | undefined> {
+  const actionable = plan.filter((x) => x.action !== 'skip');
+  if (!actionable.length) return [];
+
+  const items = actionable.map((x) => ({
+    label: `${EXTENSION_ACTION_ICONS[x.action]} ${x.action} ${x.id}`,
+    description: x.reason,
+    picked: true,
+    item: x
+  }));
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    ignoreFocusOut: true,
+    title: `Extension changes (${plan.length - actionable.length} already up to date)`,
+    placeHolder: 'Untick anything that should not be changed on this machine'
+  });
+  return picked?.map((x) => x.item);
+}
+
+type ExtensionResult = ExtensionPlanItem & { ok: boolean; error?: string };
+
+// Until this time extension changes are our own (vscode.extensions.onDidChange fires a while after the install
+// command returns), so auto sync does not upload them back.
+let ownExtensionChangesUntil = 0;
+
+async function applyExtensionPlan(plan: ExtensionPlanItem[]): Promise<ExtensionResult[]> {
+  if (!plan.length) return [];
+  ownExtensionChangesUntil = Infinity;
+  try {
+    return await runExtensionPlan(plan);
+  } finally {
+    ownExtensionChangesUntil = Date.now() + 10000;
+  }
+}
+
+async function runExtensionPlan(plan: ExtensionPlanItem[]): Promise<ExtensionResult[]> {
+  const results: ExtensionResult[] = [];
+  for (const x of plan) {
+    try {
+      if (x.vsix) {
+        await vscode.commands.executeCommand('workbench.extensions.installExtension', vscode.Uri.file(x.vsix));
+      } else if (x.action === 'install' || x.action === 'update') {
+        await vscode.commands.executeCommand('workbench.extensions.installExtension', x.version ? `${x.id}@${x.version}` : x.id);
+      } else if (x.action === 'uninstall') {
+        await vscode.commands.executeCommand('workbench.extensions.uninstallExtension', x.id);
+      }
+      results.push({ ...x, ok: true });
+      log.info(`Extension ${x.action} ${x.id}${x.version ? `@${x.version}` : ''}${x.vsix ? ` from ${x.vsix}` : ''}: done`);
+    } catch (e: any) {
+      results.push({ ...x, ok: false, error: String(e?.message || e) });
+      log.error(`Extension ${x.action} ${x.id}${x.version ? `@${x.version}` : ''} failed: ${e?.message || e}`);
+    }
+  }
+  return results;
+}
+
+async function reportExtensionResults(results: ExtensionResult[]) {
+  if (!results.length) return;
+  const failed = results.filter((r) => !r.ok);
+  const done = results.length - failed.length;
+  const summary = `Extensions: ${done} change(s) applied, ${failed.length} not applied.`;
+  if (!failed.length) {
+    vscode.window.showInformationMessage(summary);
+    return;
+  }
+
+  const choice = await vscode.window.showWarningMessage(summary, 'Show Details');
+  if (choice !== 'Show Details') return;
+  const lines = results.map((r) => `${r.ok ? 'OK    ' : 'FAILED'}  ${r.action.padEnd(9)} ${r.id}${r.version ? `@${r.version}` : ''}${r.error ? `  — ${r.error}` : ''}`);
+  const uri = memoryDocs.set('reports/extensions.log', lines.join('\n') + '\n');
+  await vscode.window.showTextDocument(uri, { preview: true });
+}
+
+// Informational only, never a failure: the user flips these in the Extensions view if they want to.
+async function reportEnablementDifferences(plan: ExtensionPlanItem[]) {
+  const differing = plan.filter((x) => x.enablement);
+  if (!differing.length) return;
+  for (const x of differing) log.info(`Extension ${x.id}: ${x.enablement}d on the synced profile, left as is here`);
+  const ids = differing.map((x) => x.id);
+  const choice = await vscode.window.showInformationMessage(
+    `${ids.length} extension(s) are enabled/disabled differently on the synced profile (${ids.slice(0, 3).join(', ')}${
+      ids.length > 3 ? ', ...' : ''
+    }). VS Code does not let extensions change that; use the Extensions view.`,
+    'Show Extensions'
+  );
+  if (choice === 'Show Extensions') await vscode.commands.executeCommand('workbench.view.extensions');
+}
+
+async function syncExtensions(remote: ExtensionsSnapshot, synced: ReadonlySet<string>, vsixFiles?: Map<string, string>): Promise<void> {
+  const full = await planExtensionSync(remote, synced, vsixFiles);
+  const plan = await confirmExtensionPlan(full);
+  if (!plan) return;
+  await reportExtensionResults(await applyExtensionPlan(plan));
+  // Unticked installs never happened, so there is nothing to enable or disable for them
+  const picked = new Set(plan.map((x) => x.id));
+  await reportEnablementDifferences(full.filter((x) => x.action === 'skip' || picked.has(x.id)));
+}
+
+async function getOrInitProfile(context: vscode.ExtensionContext): Promise<{ id: string; displayName: string }> {
+  const existingId = context.globalState.get<string>(STATE_KEYS.profileId);
+  const existingName = context.globalState.get<string>(STATE_KEYS.profileDisplayName);
+  if (existingId && existingName) return { id: existingId, displayName: existingName };
+
+  const id = crypto.randomUUID();
+  const displayName = 'default';
+  await context.globalState.update(STATE_KEYS.profileId, id);
+  await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+  return { id, displayName };
+}
+
+function isLocalProviderKind(kind: ProviderKind) {
+  return kind === 'folder' || kind === 'git';
+}
+
+async function getProvider(context: vscode.ExtensionContext): Promise<RemoteProvider> {
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  const provider = kind
+    ? createProvider(context, kind, {
+        location: context.globalState.get<string>(STATE_KEYS.localLocation),
+        token: isLocalProviderKind(kind) ? undefined : await getPrimaryToken(context, kind as HostedProviderKind),
+        apiBaseUrl: context.globalState.get<string>(STATE_KEYS.apiBaseUrl)
+      })
+    : undefined;
+  if (!provider) throw new Error('Not configured. Run "Sync VSCode Settings: Configure" first.');
+  return provider;
+}
+
+// undefined when the location (folder/git) or token (hosted) is missing
+function createProvider(
+  context: vscode.ExtensionContext,
+  kind: ProviderKind,
+  access: { location?: string; token?: string; apiBaseUrl?: string }
+): RemoteProvider | undefined {
+  if (isLocalProviderKind(kind)) {
+    if (!access.location) return undefined;
+    if (kind === 'folder') return new LoggingProvider(new FolderProvider(access.location), `folder:${access.location}`);
+    const workDir = path.join(context.globalStorageUri.fsPath, 'git', sha256(access.location).slice(0, 12));
+    return new LoggingProvider(new GitCliProvider(access.location, workDir), `git:${access.location}`);
+  }
+  if (!access.token) return undefined;
+  const hosted = kind as HostedProviderKind;
+  const baseUrl = access.apiBaseUrl || DEFAULT_API_BASE_URLS[hosted];
+  return new LoggingProvider(createHostedProvider(hosted, access.token, baseUrl), `${hosted}@${new URL(baseUrl).host}`);
+}
+
+function createHostedProvider(kind: HostedProviderKind, token: string, baseUrl: string): RemoteProvider {
+  if (kind === 'github') return new GitHubProvider(token, baseUrl);
+  if (kind === 'gitee') return new GiteeProvider(token, baseUrl);
+  if (kind === 'gitlab') return new GitLabProvider(token, baseUrl);
+  return new GiteaProvider(token, baseUrl);
+}
+
+const GITHUB_SCOPES = ['repo'];
+const GITEE_SCOPES = 'user_info projects';
+const OAUTH_CALLBACK_PATH = '/oauth-callback';
+const OAUTH_CALLBACK_TIMEOUT_MS = 5 * 60_000;
+// Refresh this long before the access token expires, so a sync never starts with a token about to lapse
+const OAUTH_REFRESH_MARGIN_MS = 60_000;
+
+type OAuthSession = {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch ms; undefined when the server did not say
+  expiresAt?: number;
+  // e.g. https://gitee.com, where /oauth/token lives
+  origin: string;
+};
+
+function signInExpiredError(label: string) {
+  // A 401 so the command wrapper offers "Configure" to sign in again
+  return new HttpError(401, `${label} sign-in expired or was revoked. Run "Sync VSCode Settings: Configure" to sign in again.`, undefined, {});
+}
+
+// Token of the primary hosted target: the VS Code GitHub session, the Gitee OAuth session or the pasted token.
+async function getPrimaryToken(context: vscode.ExtensionContext, kind: HostedProviderKind): Promise<string | undefined> {
+  const auth = context.globalState.get<AuthMode>(STATE_KEYS.auth) ?? 'token';
+  if (auth === 'vscode' && kind === 'github') {
+    // VS Code refreshes its own sessions; silent never prompts, it only finds nothing once the user signed out there
+    const session = await vscode.authentication.getSession('github', GITHUB_SCOPES, { silent: true });
+    if (!session) throw signInExpiredError('GitHub');
+    return session.accessToken;
+  }
+  if (auth === 'oauth' && kind === 'gitee') return getGiteeOAuthToken(context);
+  return context.secrets.get(SECRET_KEYS.token);
+}
+
+// undefined => cancelled
+async function signInToGitHub(forceNewSession = false): Promise<string | undefined> {
+  try {
+    const session = await vscode.authentication.getSession(
+      'github',
+      GITHUB_SCOPES,
+      forceNewSession
+        ? { forceNewSession: { detail: 'The previous GitHub session was rejected. Sign in again to sync settings.' } }
+        : { createIfNone: true, clearSessionPreference: true }
+    );
+    return session?.accessToken;
+  } catch {
+    // Rejected consent dialog
+    return undefined;
+  }
+}
+
+let giteeRefresh: Promise<string> | undefined = undefined;
+
+async function getGiteeOAuthToken(context: vscode.ExtensionContext): Promise<string> {
+  const raw = await context.secrets.get(SECRET_KEYS.oauthSession);
+  // An unreadable entry is treated like an expired sign-in
+  const session = safeJsonParse<OAuthSession | undefined>(raw ?? '', undefined);
+  if (!session?.accessToken) throw signInExpiredError('Gitee');
+  if (!session.expiresAt || session.expiresAt - OAUTH_REFRESH_MARGIN_MS > Date.now()) return session.accessToken;
+  // Auto sync, the remote check and the explorer can all ask at once, and a refresh token only works once
+  giteeRefresh ??= refreshGiteeSession(context, session).finally(() => (giteeRefresh = undefined));
+  return giteeRefresh;
+}
+
+async function refreshGiteeSession(context: vscode.ExtensionContext, session: OAuthSession): Promise<string> {
+  if (!session.refreshToken) throw signInExpiredError('Gitee');
+  let json: any;
+  try {
+    json = await requestOAuthToken(session.origin, { grant_type: 'refresh_token', refresh_token: session.refreshToken });
+  } catch (e) {
+    if (!(e instanceof HttpError) || e.status >= 500 || e.isRateLimited) throw e;
+    await context.secrets.delete(SECRET_KEYS.oauthSession);
+    throw signInExpiredError('Gitee');
+  }
+  const next = toOAuthSession(json, session.origin);
+  await context.secrets.store(SECRET_KEYS.oauthSession, JSON.stringify({ ...next, refreshToken: next.refreshToken ?? session.refreshToken }));
+  return next.accessToken;
+}
+
+// Form body instead of the documented query string, so codes and refresh tokens stay out of URLs
+function requestOAuthToken(origin: string, params: Record<string, string>): Promise<any> {
+  return fetchJson(`${origin}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams(params).toString()
+  });
+}
+
+function toOAuthSession(json: any, origin: string): OAuthSession {
+  if (!json?.access_token) throw new Error('The sign-in did not return an access token.');
+  const expiresIn = Number(json.expires_in);
+  return {
+    accessToken: String(json.access_token),
+    refreshToken: json.refresh_token ? String(json.refresh_token) : undefined,
+    expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+    origin
+  };
+}
+
+// Receives vscode://<extension id>/oauth-callback?code=...&state=... after the browser authorization.
+class OAuthCallbackHandler implements vscode.UriHandler {
+  private readonly pending = new Map<string, (query: URLSearchParams | undefined) => void>();
+
+  handleUri(uri: vscode.Uri) {
+    if (uri.path !== OAUTH_CALLBACK_PATH) return;
+    const query = new URLSearchParams(uri.query);
+    this.pending.get(query.get('state') ?? '')?.(query);
+  }
+
+  // undefined => timed out or cancelled
+  wait(state: string, token: vscode.CancellationToken): Promise<URLSearchParams | undefined> {
+    return new Promise((resolve) => {
+      const finish = (query: URLSearchParams | undefined) => {
+        clearTimeout(timer);
+        cancellation.dispose();
+        this.pending.delete(state);
+        resolve(query);
+      };
+      const timer = setTimeout(() => finish(undefined), OAUTH_CALLBACK_TIMEOUT_MS);
+      const cancellation = token.onCancellationRequested(() => finish(undefined));
+      this.pending.set(state, finish);
+    });
+  }
+}
+
+const oauthCallbacks = new OAuthCallbackHandler();
+
+function giteeOAuthCallbackUri() {
+  return `${vscode.env.uriScheme}://${EXTENSION_ID}${OAUTH_CALLBACK_PATH}`;
+}
+
+// Gitee has no device-code grant, so this is the authorization-code flow with the callback handled by VS Code.
+// undefined => cancelled or not set up.
+async function signInToGitee(context: vscode.ExtensionContext, apiBaseUrl: string): Promise<OAuthSession | undefined> {
+  const clientId = String(getConfig().get('gitee.oauthClientId') || '').trim();
+  if (!clientId) {
+    const pick = await vscode.window.showWarningMessage(
+      `Gitee sign-in needs a Gitee OAuth application with the callback URL ${giteeOAuthCallbackUri()}. Put its client id in "syncVsCodeSettings.gitee.oauthClientId".`,
+      'Open Settings'
+    );
+    if (pick === 'Open Settings') await vscode.commands.executeCommand('workbench.action.openSettings', 'syncVsCodeSettings.gitee.oauthClientId');
+    return undefined;
+  }
+  const clientSecret =
+    (await context.secrets.get(SECRET_KEYS.giteeClientSecret)) ||
+    (await vscode.window.showInputBox({ prompt: 'Client secret of the Gitee OAuth application', password: true, ignoreFocusOut: true }));
+  if (!clientSecret) return undefined;
+
+  const origin = new URL(apiBaseUrl).origin;
+  const redirectUri = giteeOAuthCallbackUri();
+  const state = crypto.randomBytes(16).toString('hex');
+  const authorizeUrl = `${origin}/oauth/authorize?${new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: GITEE_SCOPES,
+    state
+  })}`;
+
+  const query = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Waiting for Gitee sign-in in the browser...', cancellable: true },
+    async (_progress, token) => {
+      const callback = oauthCallbacks.wait(state, token);
+      await vscode.env.openExternal(vscode.Uri.parse(authorizeUrl, true));
+      return callback;
+    }
+  );
+  if (!query) return undefined;
+  const code = query.get('code');
+  if (!code) throw new Error(`Gitee sign-in failed: ${query.get('error_description') || query.get('error') || 'no authorization code'}`);
+
+  const json = await requestOAuthToken(origin, {
+    grant_type: 'authorization_code',
+    code,
+    client_id: clientId,
+    client_secret: clientSecret,
+    redirect_uri: redirectUri
+  });
+  await context.secrets.store(SECRET_KEYS.giteeClientSecret, clientSecret);
+  return toOAuthSession(json, origin);
+}
+
+async function getRepoRef(context: vscode.ExtensionContext, provider: RemoteProvider): Promise<RepoRef> {
+  const cfg = getConfig();
+  const repoName = String(cfg.get('repoName') || 'vscode-settings-sync');
+  const owner = context.globalState.get<string>(STATE_KEYS.repoOwner) || (await provider.getViewerLogin());
+  const branch = context.globalState.get<string>(STATE_KEYS.branch) || '';
+  await context.globalState.update(STATE_KEYS.repoOwner, owner);
+  await context.globalState.update(STATE_KEYS.repoName, repoName);
+  if (branch) await context.globalState.update(STATE_KEYS.branch, branch);
+  return { owner, repo: repoName, branch: branch || 'main' };
+}
+
+async function ensureRemoteReady(context: vscode.ExtensionContext, provider: RemoteProvider): Promise<RepoRef> {
+  const ref0 = await getRepoRef(context, provider);
+  await provider.ensureRepo(ref0.owner, ref0.repo, true);
+
+  // Resolve correct default branch (especially for Gitee: "master" vs "main")
+  const stored = context.globalState.get<string>(STATE_KEYS.branch);
+  const branch = stored && stored.trim() ? stored : await provider.getDefaultBranch(ref0.owner, ref0.repo);
+  await context.globalState.update(STATE_KEYS.branch, branch);
+  return { ...ref0, branch };
+}
+
+// A mirror: another place every upload also goes to. The primary target is the one set up with Configure.
+type RemoteTarget = {
+  name: string;
+  kind: ProviderKind;
+  // folder / git
+  location?: string;
+  // Hosted providers; owner and branch are resolved on first use
+  apiBaseUrl?: string;
+  owner?: string;
+  repo?: string;
+  branch?: string;
+};
+
+function mirrorTokenKey(name: string) {
+  return `${SECRET_KEYS.token}.mirror.${name}`;
+}
+
+function getMirrors(context: vscode.ExtensionContext): RemoteTarget[] {
+  return context.globalState.get<RemoteTarget[]>(STATE_KEYS.mirrors) ?? [];
+}
+
+function describeTarget(target: RemoteTarget) {
+  if (target.location) return `${target.kind}:${target.location}`;
+  return `${target.kind}:${target.owner ?? '?'}/${target.repo || String(getConfig().get('repoName') || 'vscode-settings-sync')}`;
+}
+
+// Like ensureRemoteReady() for a mirror; the resolved owner and branch are remembered. Only uploads create the
+// repository; a download fallback must not create repositories on a mirror.
+async function connectMirror(
+  context: vscode.ExtensionContext,
+  target: RemoteTarget,
+  purpose: 'upload' | 'download'
+): Promise<{ provider: RemoteProvider; ref: RepoRef }> {
+  const provider = createProvider(context, target.kind, { ...target, token: await context.secrets.get(mirrorTokenKey(target.name)) });
+  if (!provider) throw new Error(`Mirror "${target.name}" has no ${isLocalProviderKind(target.kind) ? 'location' : 'token'}.`);
+  const owner = target.owner || (await provider.getViewerLogin());
+  const repo = target.repo || String(getConfig().get('repoName') || 'vscode-settings-sync');
+  let branch = target.branch;
+  if (purpose === 'upload') {
+    await provider.ensureRepo(owner, repo, true);
+    branch ||= await provider.getDefaultBranch(owner, repo);
+  } else {
+    try {
+      // Also tells whether the repository exists
+      const defaultBranch = await provider.getDefaultBranch(owner, repo);
+      branch ||= defaultBranch;
+    } catch (e) {
+      if (isHttpStatus(e, 404)) throw new Error(`Mirror "${target.name}": repository ${owner}/${repo} not found.`);
+      throw e;
+    }
+  }
+  if (owner !== target.owner || repo !== target.repo || branch !== target.branch) {
+    const resolved = { ...target, owner, repo, branch };
+    await context.globalState.update(STATE_KEYS.mirrors, getMirrors(context).map((m) => (m.name === target.name ? resolved : m)));
+  }
+  return { provider, ref: { owner, repo, branch } };
+}
+
+// The primary target, or (with `fallback`) the first mirror that answers when the primary can't be reached.
+async function connectForDownload(context: vscode.ExtensionContext, fallback: boolean): Promise<{ remote: RemoteProvider; ref: RepoRef }> {
+  try {
+    const remote = await getProvider(context);
+    return { remote, ref: await ensureRemoteReady(context, remote) };
+  } catch (e: any) {
+    if (!fallback) throw e;
+    for (const mirror of getMirrors(context)) {
+      try {
+        const { provider, ref } = await connectMirror(context, mirror, 'download');
+        vscode.window.showWarningMessage(`Primary remote unavailable (${e?.message || e}); using mirror "${mirror.name}".`);
+        return { remote: provider, ref };
+      } catch (mirrorError: any) {
+        // try the next mirror
+        log.warn(`Mirror "${mirror.name}" unavailable: ${mirrorError?.message || mirrorError}`);
+      }
+    }
+    throw e;
+  }
+}
+
+async function readRemoteMeta(provider: RemoteProvider, ref: RepoRef, profileDir: string): Promise<ProfileMeta | undefined> {
+  const metaFile = await provider.readFile(ref, path.posix.join(profileDir, 'meta.json'));
+  if (!metaFile) return undefined;
+  const meta = safeJsonParse<ProfileMeta | undefined>(metaFile.content, undefined);
+  return meta?.schemaVersion === 1 ? meta : undefined;
+}
+
+async function promptPassphrase(isNew: boolean): Promise<string | undefined> {
+  const passphrase = await vscode.window.showInputBox({
+    prompt: isNew ? 'New passphrase for encrypting this profile' : 'Passphrase of the encrypted profile',
+    password: true,
+    ignoreFocusOut: true
+  });
+  if (!passphrase || !isNew) return passphrase;
+  const again = await vscode.window.showInputBox({ prompt: 'Repeat the passphrase', password: true, ignoreFocusOut: true });
+  if (again !== passphrase) throw new Error('Passphrases do not match.');
+  return passphrase;
+}
+
+function isProfileKey(enc: ProfileEncryption, key: Buffer) {
+  try {
+    return decryptText(key, enc.verifier) === ENCRYPTION_VERIFIER;
+  } catch {
+    return false;
+  }
+}
+
+async function unlockEncryption(context: vscode.ExtensionContext, enc: ProfileEncryption, isNew: boolean): Promise<Buffer> {
+  const verify = (key: Buffer) => isProfileKey(enc, key);
+
+  const stored = await context.secrets.get(SECRET_KEYS.passphrase);
+  if (stored && !isNew) {
+    const key = await deriveKey(stored, enc.salt);
+    if (verify(key)) return key;
+  }
+
+  const passphrase = await promptPassphrase(isNew);
+  if (!passphrase) throw new Error('A passphrase is required for encrypted profiles.');
+  const key = await deriveKey(passphrase, enc.salt);
+  if (!isNew && !verify(key)) throw new Error('Wrong passphrase for the encrypted profile.');
+  await context.secrets.store(SECRET_KEYS.passphrase, passphrase);
+  return key;
+}
+
+// Decides whether this sync is encrypted and returns the provider to use for profile files.
+// Download follows the remote meta.json; upload follows `syncVsCodeSettings.encryption.enabled`.
+async function resolveEncryption(
+  context: vscode.ExtensionContext,
+  provider: RemoteProvider,
+  ref: RepoRef,
+  profileDir: string,
+  direction: SyncDirection
+): Promise<{ provider: RemoteProvider; encryption?: ProfileEncryption }> {
+  const remoteEnc = (await readRemoteMeta(provider, ref, profileDir))?.encryption;
+
+  let enabled = direction === 'download' ? Boolean(remoteEnc) : Boolean(getConfig().get<boolean>('encryption.enabled'));
+  if (direction === 'upload' && !enabled && remoteEnc) {
+    const choice = await vscode.window.showWarningMessage(
+      'The remote profile is encrypted, but encryption is disabled on this machine.',
+      { modal: true },
+      'Keep encryption',
+      'Upload as plaintext'
+    );
+    if (!choice) throw new Error('Upload cancelled.');
+    enabled = choice === 'Keep encryption';
+  }
+  if (!enabled) return { provider };
+
+  if (remoteEnc) {
+    const key = await unlockEncryption(context, remoteEnc, false);
+    return { provider: new EncryptingProvider(provider, key), encryption: remoteEnc };
+  }
+
+  const salt = crypto.randomBytes(16).toString('base64');
+  const pending: ProfileEncryption = { scheme: 'aes-256-gcm', kdf: 'scrypt', salt, verifier: '' };
+  const key = await unlockEncryption(context, pending, true);
+  return { provider: new EncryptingProvider(provider, key), encryption: { ...pending, verifier: encryptText(key, ENCRYPTION_VERIFIER) } };
+}
+
+type RemoteProfile = { id: string; meta: ProfileMeta };
+
+async function listRemoteProfiles(provider: RemoteProvider, ref: RepoRef, basePath: string): Promise<RemoteProfile[]> {
+  const items = await provider.listDir(ref, basePath);
+  const dirs = items.filter((x) => x.type === 'dir').map((x) => x.path);
+  const results: RemoteProfile[] = [];
+
+  for (const dirFullPath of dirs) {
+    const id = path.posix.basename(dirFullPath);
+    const metaPath = path.posix.join(dirFullPath.replace(/\\/g, '/'), 'meta.json');
+    const metaFile = await provider.readFile(ref, metaPath);
+    if (!metaFile) continue;
+    const meta = safeJsonParse<ProfileMeta>(metaFile.content, undefined as any);
+    if (meta?.schemaVersion === 1 && meta?.id) results.push({ id, meta });
+  }
+  return results;
+}
+
+type SyncDirection = 'upload' | 'download';
+
+type PendingFileChange = {
+  name: string;
+  status: 'added' | 'modified' | 'deleted' | 'unchanged';
+  localPath: string;
+  local?: string;
+  remote?: string;
+};
+
+type PendingChanges = {
+  direction: SyncDirection;
+  files: PendingFileChange[];
+  // Extension ids that the sync would add to / remove from the target side.
+  extensions: { add: string[]; remove: string[] };
+};
+
+// Synced files of the local User dir, keyed by their path relative to the profile dir.
+const SINGLE_FILE_ARTIFACTS: Partial<Record<SyncArtifact, string>> = {
+  settings: 'settings.json',
+  keybindings: 'keybindings.json',
+  tasks: 'tasks.json',
+  mcp: 'mcp.json',
+  argv: 'argv.json'
+};
+
+// Folder artifacts: every file directly inside is synced.
+const FOLDER_ARTIFACTS: Partial<Record<SyncArtifact, string>> = { snippets: 'snippets', prompts: 'prompts' };
+
+function artifactOf(name: string): SyncArtifact | undefined {
+  for (const [artifact, file] of Object.entries(SINGLE_FILE_ARTIFACTS)) if (name === file) return artifact as SyncArtifact;
+  for (const [artifact, dir] of Object.entries(FOLDER_ARTIFACTS)) if (name.startsWith(`${dir}/`)) return artifact as SyncArtifact;
+  return undefined;
+}
+
+function profileArtifacts(meta: ProfileMeta | undefined): Set<SyncArtifact> {
+  return new Set(meta?.artifacts ?? DEFAULT_ARTIFACTS);
+}
+
+function filterArtifacts(files: Map<string, string>, artifacts: Set<SyncArtifact>) {
+  return new Map([...files].filter(([name]) => {
+    const artifact = artifactOf(name);
+    return artifact !== undefined && artifacts.has(artifact);
+  }));
+}
+
+async function readLocalProfileFiles(local: LocalProfilePaths, artifacts: Set<SyncArtifact>): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  for (const [artifact, name] of Object.entries(SINGLE_FILE_ARTIFACTS)) {
+    if (!artifacts.has(artifact as SyncArtifact)) continue;
+    const content = await readTextIfExists(localFilePath(local, name!));
+    if (content !== undefined) files.set(name!, content);
+  }
+  for (const [artifact, dir] of Object.entries(FOLDER_ARTIFACTS)) {
+    if (!artifacts.has(artifact as SyncArtifact)) continue;
+    for (const file of await listDirFiles(path.join(local.dir, dir!))) {
+      files.set(`${dir}/${path.basename(file)}`, await fs.readFile(file, 'utf8'));
+    }
+  }
+  return files;
+}
+
+// Concurrent requests per sync; enough to hide latency without tripping secondary rate limits.
+const REMOTE_PARALLELISM = 4;
+
+const MANIFEST_FILE = 'manifest.json';
+// How many commits after the manifest's are looked at before it is given up on
+const MANIFEST_CHECK_COMMITS = 10;
+
+// manifest.json: sha256 of the (plaintext) content of every file in the profile directory except meta.json
+// and the manifest itself. Lets upload send only changed files and download fetch only unknown ones.
+type ProfileManifest = {
+  schemaVersion: 1;
+  files: Record<string, string>;
+};
+
+async function readRemoteManifest(provider: RemoteProvider, ref: RepoRef, profileDir: string): Promise<ProfileManifest | undefined> {
+  const rf = await provider.readFile(ref, path.posix.join(profileDir, MANIFEST_FILE));
+  const manifest = rf ? safeJsonParse<ProfileManifest | undefined>(rf.content, undefined) : undefined;
+  return manifest?.files && typeof manifest.files === 'object' ? manifest : undefined;
+}
+
+function hashFiles(files: Map<string, string>): Record<string, string> {
+  return Object.fromEntries([...files].map(([name, content]) => [name, sha256(content)]));
+}
+
+type ManifestDiff = { changed: Array<[string, string]>; deleted: string[]; manifest: Record<string, string> };
+
+// Files whose hash differs from the remote manifest (all of them with `rewriteAll`) and remote files missing from
+// `files` that `isDeletable` allows removing. Remote files left alone keep their entry in the new manifest.
+export function diffManifest(
+  remoteHashes: Record<string, string>,
+  files: Map<string, string>,
+  isDeletable: (name: string) => boolean,
+  rewriteAll = false
+): ManifestDiff {
+  const hashes = hashFiles(files);
+  const changed = [...files].filter(([name]) => rewriteAll || remoteHashes[name] !== hashes[name]);
+  const deleted = Object.keys(remoteHashes).filter((name) => !files.has(name) && isDeletable(name));
+  const manifest = Object.fromEntries(
+    Object.entries({ ...remoteHashes, ...hashes })
+      .filter(([name]) => !deleted.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return { changed, deleted, manifest };
+}
+
+// Sync journal: one JSON line per upload/download/restore, appended by every machine. Not part of the manifest.
+const HISTORY_FILE = 'history.jsonl';
+// Older lines are dropped on append, keeping the file well below the 1 MB the contents APIs return.
+const HISTORY_MAX_ENTRIES = 200;
+
+type HistoryEntry = {
+  at: string;
+  operation: 'upload' | 'download' | 'restore';
+  // Host name, plus VS Code's anonymous machine id to tell apart machines with the same name
+  machine: string;
+  machineId: string;
+  platform: NodeJS.Platform;
+  vscodeVersion: string;
+  // sha256 of every synced file of the profile after the operation
+  files: Record<string, string>;
+  // Upload only: files sent and removed
+  changed?: string[];
+  deleted?: string[];
+  // Restore only: the commit restored from
+  commit?: string;
+};
+
+function historyEnabled() {
+  return Boolean(getConfig().get('history.enabled'));
+}
+
+function newHistoryEntry(operation: HistoryEntry['operation'], files: Record<string, string>, extra: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    at: nowIso(),
+    operation,
+    machine: os.hostname(),
+    machineId: vscode.env.machineId.slice(0, 12),
+    platform: process.platform,
+    vscodeVersion: vscode.version,
+    files,
+    ...extra
+  };
+}
+
+// history.jsonl with `entries` appended. A read-modify-write: two machines syncing at the same moment may lose a line.
+async function appendHistory(provider: RemoteProvider, ref: RepoRef, profileDir: string, entries: HistoryEntry[]): Promise<FileChange> {
+  const filePath = path.posix.join(profileDir, HISTORY_FILE);
+  const current = (await provider.readFile(ref, filePath))?.content ?? '';
+  const lines = [...current.split('\n').filter((line) => line.trim()), ...entries.map((entry) => JSON.stringify(entry))];
+  return { path: filePath, content: lines.slice(-HISTORY_MAX_ENTRIES).join('\n') + '\n' };
+}
+
+// Downloads and restores don't commit on their own (that would add a commit to the profile history for every
+// download); their entries wait here for the next upload.
+function pendingHistory(context: vscode.ExtensionContext, profileId: string): HistoryEntry[] {
+  return context.globalState.get<Record<string, HistoryEntry[]>>(STATE_KEYS.pendingHistory)?.[profileId] ?? [];
+}
+
+async function setPendingHistory(context: vscode.ExtensionContext, profileId: string, entries: HistoryEntry[]) {
+  const all = { ...context.globalState.get<Record<string, HistoryEntry[]>>(STATE_KEYS.pendingHistory) };
+  if (entries.length) all[profileId] = entries.slice(-HISTORY_MAX_ENTRIES);
+  else delete all[profileId];
+  await context.globalState.update(STATE_KEYS.pendingHistory, all);
+}
+
+// Oldest first; lines that don't parse are skipped.
+async function readHistory(provider: RemoteProvider, ref: RepoRef, profileDir: string): Promise<HistoryEntry[]> {
+  const content = (await provider.readFile(ref, path.posix.join(profileDir, HISTORY_FILE)))?.content ?? '';
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => safeJsonParse<HistoryEntry | undefined>(line, undefined))
+    .filter((entry): entry is HistoryEntry => Boolean(entry?.at && entry.operation));
+}
+
+// Content-addressed copies of remote files, so unchanged files are never downloaded twice.
+function remoteCacheDir(context: vscode.ExtensionContext, profileDir: string) {
+  return path.join(context.globalStorageUri.fsPath, 'cache', sha256(profileDir).slice(0, 16));
+}
+
+async function readRemoteProfileFiles(
+  context: vscode.ExtensionContext,
+  provider: RemoteProvider,
+  ref: RepoRef,
+  profileDir: string,
+  artifacts: Set<SyncArtifact>
+): Promise<Map<string, string>> {
+  const names = new Set<string>();
+  for (const [artifact, name] of Object.entries(SINGLE_FILE_ARTIFACTS)) if (artifacts.has(artifact as SyncArtifact)) names.add(name!);
+  if (artifacts.has('settings')) names.add(PLATFORM_SETTINGS_FILE);
+  if (artifacts.has('keybindings')) names.add(PLATFORM_KEYBINDINGS_FILE);
+  const folders = Object.entries(FOLDER_ARTIFACTS)
+    .filter(([artifact]) => artifacts.has(artifact as SyncArtifact))
+    .map(([, dir]) => dir!);
+
+  const files = new Map<string, string>();
+  const listed = await mapLimit(folders, REMOTE_PARALLELISM, (dir) => provider.listDir(ref, path.posix.join(profileDir, dir)));
+  const listedNames = listed.flatMap((items, i) => items.filter((x) => x.type === 'file').map((x) => `${folders[i]}/${path.posix.basename(x.path)}`));
+  const manifest = await readRemoteManifest(provider, ref, profileDir);
+  const isWanted = (name: string) => names.has(name) || folders.some((dir) => name.startsWith(`${dir}/`));
+  const trusted = manifest && (await manifestMatchesRemote(provider, ref, profileDir, manifest, isWanted, listedNames));
+  if (!trusted) {
+    // Profiles uploaded before manifests existed, or changed without updating it: read everything.
+    if (manifest) log.info(`${MANIFEST_FILE} of ${profileDir} does not match the remote files; reading all of them`);
+    const paths = [...names, ...listedNames].map((name) => path.posix.join(profileDir, name));
+    const contents = await mapLimit(paths, REMOTE_PARALLELISM, (p) => provider.readFile(ref, p));
+    paths.forEach((p, i) => {
+      if (contents[i]) files.set(p.slice(profileDir.length + 1), contents[i]!.content);
+    });
+    return files;
+  }
+
+  const cacheDir = remoteCacheDir(context, profileDir);
+  const wanted = Object.entries(manifest.files).filter(([name]) => isWanted(name));
+  await mapLimit(wanted, REMOTE_PARALLELISM, async ([name, hash]) => {
+    const cached = await readTextIfExists(path.join(cacheDir, hash));
+    if (cached !== undefined && sha256(cached) === hash) {
+      files.set(name, cached);
+      return;
+    }
+    const rf = await provider.readFile(ref, path.posix.join(profileDir, name));
+    if (!rf) return;
+    files.set(name, rf.content);
+    // A manifest that doesn't match the content (edited by hand?) is not trusted for caching
+    if (sha256(rf.content) === hash) {
+      await ensureDir(cacheDir);
+      await fs.writeFile(path.join(cacheDir, hash), rf.content, 'utf8');
+    }
+  });
+
+  // Drop cached copies the head no longer references; history reads leave the cache alone.
+  if (!ref.commit) {
+    const referenced = new Set(Object.values(manifest.files));
+    for (const entry of await listDirFiles(cacheDir)) if (!referenced.has(path.basename(entry))) await fs.rm(entry, { force: true });
+  }
+  return files;
+}
+
+// A manifest is only trusted while it lists exactly the files that exist and no synced file changed in a commit
+// after it; files added, removed or edited by hand (or by an older version) would otherwise be missed.
+async function manifestMatchesRemote(
+  provider: RemoteProvider,
+  ref: RepoRef,
+  profileDir: string,
+  manifest: ProfileManifest,
+  isWanted: (name: string) => boolean,
+  listedNames: string[]
+): Promise<boolean> {
+  const root = (await provider.listDir(ref, profileDir)).filter((x) => x.type === 'file').map((x) => path.posix.basename(x.path));
+  const present = [...root.filter((name) => isWanted(name)), ...listedNames];
+  const inManifest = Object.keys(manifest.files).filter((name) => isWanted(name));
+  if (inManifest.length !== present.length || !present.every((name) => name in manifest.files)) return false;
+  // History reads are pinned to a commit the branch log can't be compared with; local folders have no log
+  if (ref.commit || provider.kind === 'folder') return true;
+
+  const [dirCommits, manifestCommits] = await Promise.all([
+    provider.listCommits(ref, profileDir, MANIFEST_CHECK_COMMITS),
+    provider.listCommits(ref, path.posix.join(profileDir, MANIFEST_FILE), 1)
+  ]);
+  // Commits after the manifest's that only wrote meta.json or the journal (Rename, Choose What to Sync) are fine
+  const prefix = `${normalizeRepoPath(profileDir)}/`;
+  for (const commit of dirCommits) {
+    if (commit.sha === manifestCommits[0]?.sha) return true;
+    const changed = (await provider.getCommitFiles(ref, commit.sha)).map((f) => normalizeRepoPath(f.path));
+    if (changed.some((p) => p.startsWith(prefix) && isWanted(p.slice(prefix.length)))) return false;
+  }
+  return !dirCommits.length;
+}
+
+// Paths (relative to `dirPath`) of every file below a remote directory.
+async function listRemoteFilesRecursive(provider: RemoteProvider, ref: RepoRef, dirPath: string): Promise<string[]> {
+  const names: string[] = [];
+  const visit = async (rel: string) => {
+    const items = await provider.listDir(ref, rel ? path.posix.join(dirPath, rel) : dirPath);
+    const dirs: string[] = [];
+    for (const x of items) {
+      const name = rel ? `${rel}/${path.posix.basename(x.path)}` : path.posix.basename(x.path);
+      if (x.type === 'file') names.push(name);
+      else dirs.push(name);
+    }
+    await mapLimit(dirs, REMOTE_PARALLELISM, visit);
+  };
+  await visit('');
+  return names.sort();
+}
+
+// Every file of a profile directory, except meta.json, the manifest and the journal.
+async function readAllRemoteFiles(provider: RemoteProvider, ref: RepoRef, profileDir: string): Promise<Map<string, string>> {
+  const names = (await listRemoteFilesRecursive(provider, ref, profileDir)).filter(
+    (name) => name !== 'meta.json' && name !== MANIFEST_FILE && name !== HISTORY_FILE
+  );
+  const contents = await mapLimit(names, REMOTE_PARALLELISM, (name) => provider.readFile(ref, path.posix.join(profileDir, name)));
+  const files = new Map<string, string>();
+  names.forEach((name, i) => {
+    if (contents[i]) files.set(name, contents[i]!.content);
+  });
+  return files;
+}
+
+// What splitPlatformFiles needs from the remote: this platform's overlays and the shared settings.json.
+async function readRemoteSplitFiles(provider: RemoteProvider, ref: RepoRef, profileDir: string, artifacts: Set<SyncArtifact>) {
+  const names = [
+    ...(artifacts.has('settings') ? [PLATFORM_SETTINGS_FILE, 'settings.json'] : []),
+    ...(artifacts.has('keybindings') ? [PLATFORM_KEYBINDINGS_FILE] : [])
+  ];
+  const files = new Map<string, string>();
+  for (const name of names) {
+    const rf = await provider.readFile(ref, path.posix.join(profileDir, name));
+    if (rf) files.set(name, rf.content);
+  }
+  return files;
+}
+
+// argv.json keys that identify this installation and never leave it.
+const MACHINE_ARGV_KEYS = ['crash-reporter-id'];
+
+// What upload sends for the local files: ignored settings and machine-only argv.json keys are left out.
+function stripMachineLocal(files: Map<string, string>): Map<string, string> {
+  const out = new Map(files);
+  const settings = files.get('settings.json');
+  if (settings !== undefined) out.set('settings.json', stripIgnoredSettings(settings, ignoredSettingsMatcher()));
+  let argv = files.get('argv.json');
+  if (argv !== undefined) {
+    for (const key of MACHINE_ARGV_KEYS) if (key in parseJsoncObject(argv)) argv = jsoncSet(argv, [key], undefined);
+    out.set('argv.json', argv);
+  }
+  return out;
+}
+
+const PLATFORM_SETTINGS_FILE = `settings.${process.platform}.json`;
+const PLATFORM_KEYBINDINGS_FILE = `keybindings.${process.platform}.json`;
+
+// Modifiers that only exist on one OS; keybindings using them belong in that OS's overlay.
+const PLATFORM_ONLY_MODIFIERS: Record<string, string> = { darwin: 'cmd', win32: 'win', linux: 'meta' };
+
+function usesModifier(k: any, modifier: string) {
+  return String(k?.key ?? '')
+    .split(' ')
+    .some((chord) => chord.split('+').includes(modifier));
+}
+
+// cmd <-> ctrl in every chord of every keybinding, edited in place so comments survive.
+function translateKeybindingModifiers(text: string, from: string, to: string): string {
+  const entries = parseJsoncArray(text);
+  for (let i = 0; i < entries.length; i++) {
+    const k: any = entries[i];
+    if (typeof k?.key !== 'string' || !usesModifier(k, from)) continue;
+    const key = k.key
+      .split(' ')
+      .map((chord: string) => chord.split('+').map((m) => (m === from ? to : m)).join('+'))
+      .join(' ');
+    text = jsoncSet(text, [i, 'key'], key);
+  }
+  return text;
+}
+
+// Folds this machine's overlay files (settings.<platform>.json, keybindings.<platform>.json) into the shared files
+// of one profile layer. Keybindings uploaded from macOS are optionally translated (cmd <-> ctrl) first.
+function applyPlatformOverlays(files: Map<string, string>, meta: ProfileMeta | undefined): Map<string, string> {
+  const out = new Map([...files].filter(([name]) => !/^(settings|keybindings)\.[a-z0-9]+\.json$/.test(name)));
+
+  let keybindings = files.get('keybindings.json');
+  const fromMac = meta?.platform === 'darwin';
+  if (keybindings !== undefined && meta?.platform && fromMac !== (process.platform === 'darwin')) {
+    if (getConfig().get<boolean>('keybindings.translateModifiers')) {
+      keybindings = fromMac ? translateKeybindingModifiers(keybindings, 'cmd', 'ctrl') : translateKeybindingModifiers(keybindings, 'ctrl', 'cmd');
+    }
+  }
+
+  const settingsOverlay = parseJsoncObject(files.get(PLATFORM_SETTINGS_FILE));
+  if (Object.keys(settingsOverlay).length) {
+    let text = files.get('settings.json')?.trim() ? files.get('settings.json')! : '{}\n';
+    const shared = parseJsoncObject(text);
+    for (const [key, value] of Object.entries(settingsOverlay)) text = jsoncSet(text, [key], key in shared ? deepMerge(shared[key], value) : value);
+    out.set('settings.json', text);
+  }
+
+  const keybindingsOverlay = keybindingEntries(files.get(PLATFORM_KEYBINDINGS_FILE));
+  if (keybindingsOverlay.size) {
+    // Overlay entries go last so they win over shared ones with the same key+command+when
+    let text = keybindings?.trim() ? keybindings : '[]\n';
+    const entries = parseJsoncArray(text);
+    for (let i = entries.length - 1; i >= 0; i--) if (keybindingsOverlay.has(keybindingId(entries[i]))) text = jsoncSet(text, [i], undefined);
+    for (const k of keybindingsOverlay.values()) text = jsoncSet(text, [-1], k, true);
+    keybindings = text;
+  }
+  if (keybindings !== undefined) out.set('keybindings.json', keybindings);
+  return out;
+}
+
+// Matcher for `syncVsCodeSettings.platformSettings`: keys that are stored per OS rather than shared.
+function platformSettingsMatcher(existingOverlay: string | undefined): (key: string) => boolean {
+  const patterns = (getConfig().get<string[]>('platformSettings') || []).map((p) => String(p).trim()).filter(Boolean);
+  const regexps = patterns.map(globToRegExp);
+  const overlayKeys = new Set(Object.keys(parseJsoncObject(existingOverlay)));
+  return (key) => overlayKeys.has(key) || regexps.some((re) => re.test(key));
+}
+
+// Upload side of overlays: moves platform-specific settings and keybindings out of the shared files
+// into this platform's overlay files. Keys/entries already in the remote overlay stay there.
+// A moved setting the remote shared settings.json already has keeps its remote value there, as the fallback for
+// platforms without an overlay; dropping it would make their next download delete it locally.
+function splitPlatformFiles(files: Map<string, string>, remote: Map<string, string>): Map<string, string> {
+  const out = new Map(files);
+
+  const settings = files.get('settings.json');
+  if (settings !== undefined) {
+    const existing = remote.get(PLATFORM_SETTINGS_FILE);
+    const isPlatformKey = platformSettingsMatcher(existing);
+    const remoteShared = parseJsoncObject(remote.get('settings.json'));
+    let shared = settings;
+    const overlay: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(parseJsoncObject(settings))) {
+      if (!isPlatformKey(key)) continue;
+      overlay[key] = value;
+      shared = jsoncSet(shared, [key], key in remoteShared ? remoteShared[key] : undefined);
+    }
+    out.set('settings.json', shared);
+    if (Object.keys(overlay).length || existing !== undefined) out.set(PLATFORM_SETTINGS_FILE, JSON.stringify(overlay, null, 2) + '\n');
+  }
+
+  const keybindings = files.get('keybindings.json');
+  if (keybindings !== undefined) {
+    const existing = remote.get(PLATFORM_KEYBINDINGS_FILE);
+    const overlayIds = new Set(keybindingEntries(existing).keys());
+    // With translation on, cmd bindings stay shared: other OSes get them as ctrl, and the cmd bindings a Mac
+    // got by translating shared ctrl ones must not be moved away from the OSes that wrote them.
+    const translated = process.platform === 'darwin' && getConfig().get<boolean>('keybindings.translateModifiers');
+    const modifier = translated ? undefined : PLATFORM_ONLY_MODIFIERS[process.platform];
+    let shared = keybindings;
+    const overlay: unknown[] = [];
+    const entries = parseJsoncArray(keybindings);
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (!overlayIds.has(keybindingId(entries[i])) && !(modifier && usesModifier(entries[i], modifier))) continue;
+      overlay.unshift(entries[i]);
+      shared = jsoncSet(shared, [i], undefined);
+    }
+    out.set('keybindings.json', shared);
+    if (overlay.length || existing !== undefined) out.set(PLATFORM_KEYBINDINGS_FILE, JSON.stringify(overlay, null, 2) + '\n');
+  }
+  return out;
+}
+
+type ProfileLayer = {
+  id: string;
+  meta?: ProfileMeta;
+  files: Map<string, string>;
+  extensions?: ExtensionsSnapshot;
+};
+
+// The profile as it applies locally: all parent layers merged with the profile's own files on top.
+type EffectiveProfile = {
+  // Root-most parent first, the requested profile last
+  chain: ProfileLayer[];
+  files: Map<string, string>;
+  extensions?: ExtensionsSnapshot;
+};
+
+async function readProfileLayer(context: vscode.ExtensionContext, remote: RemoteProvider, ref: RepoRef, basePath: string, id: string): Promise<ProfileLayer> {
+  const dir = path.posix.join(basePath, id);
+  // Each layer may be encrypted with its own salt
+  const { provider } = await resolveEncryption(context, remote, ref, dir, 'download');
+  const meta = await readRemoteMeta(remote, ref, dir);
+  const artifacts = profileArtifacts(meta);
+  const extsFile = artifacts.has('extensions') ? await provider.readFile(ref, path.posix.join(dir, 'extensions.json')) : undefined;
+  return {
+    id,
+    meta,
+    files: applyPlatformOverlays(await readRemoteProfileFiles(context, provider, ref, dir, artifacts), meta),
+    extensions: extsFile ? safeJsonParse<ExtensionsSnapshot | undefined>(extsFile.content, undefined) : undefined
+  };
+}
+
+// Reads `id` and (recursively) its parents. Parents are de-duplicated; cycles are an error.
+async function readProfileChain(context: vscode.ExtensionContext, remote: RemoteProvider, ref: RepoRef, basePath: string, id: string): Promise<ProfileLayer[]> {
+  const chain: ProfileLayer[] = [];
+  const done = new Set<string>();
+  const visiting = new Set<string>();
+  const visit = async (layerId: string, trail: string[]) => {
+    if (done.has(layerId)) return;
+    if (visiting.has(layerId)) throw new Error(`Profile inheritance cycle: ${[...trail, layerId].join(' → ')}`);
+    visiting.add(layerId);
+    const layer = await readProfileLayer(context, remote, ref, basePath, layerId);
+    if (!layer.meta && layerId !== id) throw new Error(`Parent profile ${layerId} of ${trail[trail.length - 1]} does not exist.`);
+    for (const parent of layer.meta?.parents ?? []) await visit(parent, [...trail, layerId]);
+    visiting.delete(layerId);
+    done.add(layerId);
+    chain.push(layer);
+  };
+  await visit(id, []);
+  return chain;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === 'object' && !Array.isArray(v);
+}
+
+function deepMerge(base: unknown, over: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(over)) return over;
+  const out: Record<string, unknown> = { ...base };
+  for (const [k, v] of Object.entries(over)) out[k] = k in base ? deepMerge(base[k], v) : v;
+  return out;
+}
+
+// Child text is kept as-is (comments included); inherited keys are written into it.
+function mergeSettingsLayers(parentTexts: string[], childText: string | undefined): string {
+  const inherited = parentTexts.reduce<Record<string, unknown>>((acc, t) => deepMerge(acc, parseJsoncObject(t)) as Record<string, unknown>, {});
+  let text = childText?.trim() ? childText : '{}\n';
+  const own = parseJsoncObject(text);
+  for (const [key, value] of Object.entries(inherited)) {
+    const merged = key in own ? deepMerge(value, own[key]) : value;
+    if (!(key in own) || !jsonEquals(merged, own[key])) text = jsoncSet(text, [key], merged);
+  }
+  return text;
+}
+
+// Parent keybindings come first; an entry with the same key+command+when further down the chain wins.
+function mergeKeybindingLayers(parentTexts: string[], childText: string | undefined): string {
+  const inherited = new Map<string, unknown>();
+  for (const t of parentTexts) for (const [id, k] of keybindingEntries(t)) inherited.set(id, k);
+  let text = childText?.trim() ? childText : '[]\n';
+  const own = keybindingEntries(text);
+  let index = 0;
+  for (const [id, k] of inherited) {
+    if (own.has(id)) continue;
+    text = jsoncSet(text, [index++], k, true);
+  }
+  return text;
+}
+
+function mergeExtensionLayers(layers: Array<ExtensionsSnapshot | undefined>): ExtensionsSnapshot | undefined {
+  const present = layers.filter((x): x is ExtensionsSnapshot => Boolean(x));
+  if (!present.length) return undefined;
+  const byId = new Map<string, ExtensionEntry>();
+  for (const snap of present) for (const e of snap.extensions ?? []) byId.set(e.id.toLowerCase(), e);
+  return {
+    schemaVersion: 1,
+    generatedAt: present[present.length - 1].generatedAt,
+    extensions: [...byId.values()].sort((a, b) => a.id.localeCompare(b.id))
+  };
+}
+
+export function mergeProfileLayers(chain: ProfileLayer[]): EffectiveProfile {
+  const own = chain[chain.length - 1];
+  const parents = chain.slice(0, -1);
+  if (!parents.length) return { chain, files: own.files, extensions: own.extensions };
+
+  const files = new Map<string, string>();
+  // Snippets, prompts and whole files like tasks.json: union, nearer layers override same-named files
+  for (const layer of chain) for (const [name, content] of layer.files) files.set(name, content);
+
+  const parentTexts = (name: string) => parents.map((l) => l.files.get(name)).filter((t): t is string => t !== undefined);
+  if (parentTexts('settings.json').length || own.files.has('settings.json')) {
+    files.set('settings.json', mergeSettingsLayers(parentTexts('settings.json'), own.files.get('settings.json')));
+  }
+  if (parentTexts('keybindings.json').length || own.files.has('keybindings.json')) {
+    files.set('keybindings.json', mergeKeybindingLayers(parentTexts('keybindings.json'), own.files.get('keybindings.json')));
+  }
+  return { chain, files, extensions: mergeExtensionLayers(chain.map((l) => l.extensions)) };
+}
+
+async function resolveEffectiveProfile(
+  context: vscode.ExtensionContext,
+  remote: RemoteProvider,
+  ref: RepoRef,
+  basePath: string,
+  id: string
+): Promise<EffectiveProfile> {
+  return mergeProfileLayers(await readProfileChain(context, remote, ref, basePath, id));
+}
+
+// Upload side of layering: drop everything the parents already provide, so the profile only stores its overrides.
+export function stripInherited(parents: EffectiveProfile, files: Map<string, string>, exts: ExtensionsSnapshot) {
+  const out = new Map<string, string>();
+  for (const [name, content] of files) {
+    const inherited = parents.files.get(name);
+    if (name === 'settings.json' && inherited !== undefined) {
+      const parentObj = parseJsoncObject(inherited);
+      let text = content;
+      for (const [key, value] of Object.entries(parseJsoncObject(content))) {
+        if (key in parentObj && jsonEquals(value, parentObj[key])) text = jsoncSet(text, [key], undefined);
+      }
+      out.set(name, text);
+    } else if (name === 'keybindings.json' && inherited !== undefined) {
+      const parentEntries = keybindingEntries(inherited);
+      let text = content;
+      const own = parseJsoncArray(content);
+      for (let i = own.length - 1; i >= 0; i--) {
+        const id = keybindingId(own[i]);
+        if (parentEntries.has(id) && jsonEquals(parentEntries.get(id), own[i])) text = jsoncSet(text, [i], undefined);
+      }
+      out.set(name, text);
+    } else if (inherited === undefined || inherited !== content) {
+      out.set(name, content);
+    }
+  }
+
+  const parentExts = new Map((parents.extensions?.extensions ?? []).map((e) => [e.id.toLowerCase(), e]));
+  const ownExts = exts.extensions.filter((e) => {
+    const p = parentExts.get(e.id.toLowerCase());
+    return !p || (p.enabled !== false) !== (e.enabled !== false) || p.pinnedVersion !== e.pinnedVersion;
+  });
+  return { files: out, extensions: { ...exts, extensions: ownExts } };
+}
+
+function describeChain(meta: ProfileMeta | undefined, names: Map<string, string>) {
+  return (meta?.parents ?? []).map((id) => names.get(id) || id).join(', ');
+}
+
+async function collectPendingChanges(context: vscode.ExtensionContext, remoteSide: EffectiveProfile, direction: SyncDirection): Promise<PendingChanges> {
+  const artifacts = profileArtifacts(remoteSide.chain[remoteSide.chain.length - 1].meta);
+  const localPaths = await getLocalProfilePaths(context);
+  // Compare what upload would actually send
+  const local = stripMachineLocal(await readLocalProfileFiles(localPaths, artifacts));
+  const remote = filterArtifacts(remoteSide.files, artifacts);
+
+  const files: PendingFileChange[] = [];
+  for (const name of Array.from(new Set([...local.keys(), ...remote.keys()])).sort()) {
+    const l = local.get(name);
+    const r = remote.get(name);
+    const [source, target] = direction === 'upload' ? [l, r] : [r, l];
+    const status = target === undefined ? 'added' : source === undefined ? 'deleted' : source === target ? 'unchanged' : 'modified';
+    files.push({ name, status, localPath: localFilePath(localPaths, name), local: l, remote: r });
+  }
+
+  const remoteExts = remoteSide.extensions ?? { schemaVersion: 1, generatedAt: nowIso(), extensions: [] };
+  if (!artifacts.has('extensions')) return { direction, files, extensions: { add: [], remove: [] } };
+  const localIds = new Set((await snapshotExtensions()).extensions.map((e) => e.id.toLowerCase()));
+  const isIgnored = ignoredExtensionsMatcher();
+  const remoteIds = new Set(remoteExts.extensions.filter((e) => !isIgnored(e.id)).map((e) => e.id.toLowerCase()));
+  const [sourceIds, targetIds] = direction === 'upload' ? [localIds, remoteIds] : [remoteIds, localIds];
+
+  return {
+    direction,
+    files,
+    extensions: {
+      add: [...sourceIds].filter((id) => !targetIds.has(id)).sort(),
+      remove: [...targetIds].filter((id) => !sourceIds.has(id)).sort()
+    }
+  };
+}
+
+const CHANGE_ICONS: Record<PendingFileChange['status'], string> = {
+  added: '$(diff-added)',
+  modified: '$(diff-modified)',
+  deleted: '$(diff-removed)',
+  unchanged: '$(check)'
+};
+
+async function openPendingFileDiff(change: PendingFileChange, direction: SyncDirection) {
+  const localUri = change.local !== undefined ? vscode.Uri.file(change.localPath) : memoryDocs.set(`local/${change.name}`, '');
+  const remoteUri = memoryDocs.set(`remote/${change.name}`, change.remote ?? '');
+  const [left, right, title] =
+    direction === 'upload' ? [remoteUri, localUri, `${change.name} (Remote ↔ Local)`] : [localUri, remoteUri, `${change.name} (Local ↔ Remote)`];
+  await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true, preserveFocus: true });
+}
+
+// Lists pending changes; picking a file opens its diff. With `confirm`, resolves true only if the user chose to continue.
+async function showPendingChanges(changes: PendingChanges, confirm: boolean): Promise<boolean> {
+  type Item = vscode.QuickPickItem & { change?: PendingFileChange; proceed?: boolean; inert?: boolean };
+  const items: Item[] = [];
+  if (confirm) {
+    items.push({ label: `$(check) Continue ${changes.direction}`, proceed: true }, { label: '$(close) Cancel' });
+  }
+
+  items.push({ label: 'Files', kind: vscode.QuickPickItemKind.Separator });
+  for (const change of changes.files) {
+    items.push({ label: `${CHANGE_ICONS[change.status]} ${change.name}`, description: change.status, change });
+  }
+
+  const [addLabel, removeLabel] = changes.direction === 'upload' ? ['added', 'removed'] : ['install', 'uninstall'];
+  if (changes.extensions.add.length || changes.extensions.remove.length) {
+    items.push({ label: 'Extensions', kind: vscode.QuickPickItemKind.Separator });
+    for (const id of changes.extensions.add) items.push({ label: `$(add) ${id}`, description: addLabel, inert: true });
+    for (const id of changes.extensions.remove) items.push({ label: `$(remove) ${id}`, description: removeLabel, inert: true });
+  }
+
+  const changed = changes.files.filter((f) => f.status !== 'unchanged').length;
+  const qp = vscode.window.createQuickPick<Item>();
+  qp.items = items;
+  qp.ignoreFocusOut = true;
+  qp.title = `Pending ${changes.direction}: ${changed} file(s) changed`;
+  qp.placeholder = 'Select a file to view its diff';
+
+  return await new Promise<boolean>((resolve) => {
+    let result = false;
+    qp.onDidAccept(() => {
+      const item = qp.selectedItems[0];
+      if (item?.change) {
+        void openPendingFileDiff(item.change, changes.direction);
+        return;
+      }
+      if (item?.inert) return;
+      result = Boolean(item?.proceed);
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      qp.dispose();
+      resolve(result);
+    });
+    qp.show();
+  });
+}
+
+// Optional confirmation step for upload()/download(), controlled by `syncVsCodeSettings.confirmBeforeSync`.
+async function confirmPendingChanges(
+  context: vscode.ExtensionContext,
+  effective: () => Promise<EffectiveProfile>,
+  direction: SyncDirection
+): Promise<boolean> {
+  if (!getConfig().get<boolean>('confirmBeforeSync')) return true;
+  const changes = await collectPendingChanges(context, await effective(), direction);
+  return await showPendingChanges(changes, true);
+}
+
+async function previewChanges(context: vscode.ExtensionContext) {
+  const remote = await getProvider(context);
+  const ref = await ensureRemoteReady(context, remote);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const profile = await getOrInitProfile(context);
+
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '$(cloud-upload) Upload', description: 'local → remote', direction: 'upload' as const },
+      { label: '$(cloud-download) Download', description: 'remote → local', direction: 'download' as const }
+    ],
+    { placeHolder: 'Preview changes for' }
+  );
+  if (!pick) return;
+
+  // Remote files are shown decrypted and with parent profiles applied, whichever direction is previewed.
+  const effective = await resolveEffectiveProfile(context, remote, ref, basePath, profile.id);
+  const changes = await collectPendingChanges(context, effective, pick.direction);
+  await showPendingChanges(changes, false);
+}
+
+type SyncOptions = {
+  // Background run from auto-sync: no confirmation step, no toast on success.
+  auto?: boolean;
+  // Download only: read the profile as of this commit (history restore). Base snapshots and
+  // lastSyncAt stay as they are, so the next download still merges against the branch head.
+  commit?: string;
+};
+
+type PushJob = {
+  profile: { id: string; displayName: string };
+  // Synced state from before this upload, so every target sees the same deletions
+  synced: Record<string, string>;
+  // lastSyncAt written to every target, so they compare equal
+  syncedAt: string;
+  // Primary target only: record the upload as this machine's last sync (base snapshots, synced state, lastSyncAt)
+  track: boolean;
+  // Journal entries of downloads since the last upload, committed along with this one
+  pendingHistory: HistoryEntry[];
+};
+
+type PushResult = { upToDate: boolean; changed: number; deleted: number };
+
+// Uploads the local profile to one target.
+async function pushProfile(context: vscode.ExtensionContext, remote: RemoteProvider, ref: RepoRef, job: PushJob): Promise<PushResult> {
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const { profile } = job;
+  const profileDir = path.posix.join(basePath, profile.id);
+  const { provider, encryption } = await resolveEncryption(context, remote, ref, profileDir, 'upload');
+  const remoteMeta = await readRemoteMeta(remote, ref, profileDir);
+  if (job.track && remoteMeta?.displayName && remoteMeta.displayName !== profile.displayName) {
+    await context.globalState.update(STATE_KEYS.profileDisplayName, remoteMeta.displayName);
+  }
+  const parents = remoteMeta?.parents?.length
+    ? mergeProfileLayers((await readProfileChain(context, remote, ref, basePath, profile.id)).slice(0, -1))
+    : undefined;
+  const artifacts = profileArtifacts(remoteMeta);
+
+  // Read everything locally first so a local read error can't leave a half-written remote profile.
+  const localFiles = stripMachineLocal(await readLocalProfileFiles(await getLocalProfilePaths(context), artifacts));
+  if (artifacts.has('settings') && !localFiles.has('settings.json')) localFiles.set('settings.json', '{}\n');
+  if (artifacts.has('keybindings') && !localFiles.has('keybindings.json')) localFiles.set('keybindings.json', '[]\n');
+  const exts = await snapshotExtensions();
+
+  const meta: ProfileMeta = {
+    schemaVersion: 1,
+    id: profile.id,
+    // Renames done with Manage Profiles (possibly on another machine) win over the name cached here
+    displayName: remoteMeta?.displayName || profile.displayName,
+    createdAt: remoteMeta?.createdAt || nowIso(),
+    lastSyncAt: job.syncedAt,
+    platform: process.platform,
+    vscodeVersion: vscode.version,
+    ...(encryption ? { encryption } : {}),
+    ...(remoteMeta?.parents?.length ? { parents: remoteMeta.parents } : {}),
+    ...(remoteMeta?.artifacts ? { artifacts: remoteMeta.artifacts } : {})
+  };
+
+  let own = { files: localFiles, extensions: exts };
+  // With parent profiles, only what differs from the parents is stored in this profile.
+  if (parents) own = stripInherited(parents, own.files, own.extensions);
+  own.files = splitPlatformFiles(own.files, await readRemoteSplitFiles(provider, ref, profileDir, artifacts));
+
+  // Compare with the manifest; profiles from before manifests existed are hashed once from their contents.
+  const remoteManifest = await readRemoteManifest(provider, ref, profileDir);
+  const remoteHashes = remoteManifest?.files ?? hashFiles(await readAllRemoteFiles(provider, ref, profileDir));
+  if (artifacts.has('extensions')) {
+    // Keep the remote snapshot (and its generatedAt) when the list itself is unchanged, so it isn't re-sent.
+    const remoteExts = remoteHashes['extensions.json'] ? await provider.readFile(ref, path.posix.join(profileDir, 'extensions.json')) : undefined;
+    const previous = remoteExts ? safeJsonParse<ExtensionsSnapshot | undefined>(remoteExts.content, undefined) : undefined;
+    own.files.set(
+      'extensions.json',
+      previous && jsonEquals(previous.extensions, own.extensions.extensions) ? remoteExts!.content : JSON.stringify(own.extensions, null, 2) + '\n'
+    );
+  }
+
+  // A different key means every file has to be rewritten
+  const encryptionChanged = !jsonEquals(remoteMeta?.encryption, meta.encryption);
+  // Only files this machine knows about are deleted: removed locally since the last sync, or now inherited from a parent.
+  // Other platforms' overlays and deselected items are left alone.
+  const { synced } = job;
+  const isDeletable = (name: string) => {
+    const artifact = artifactOf(name);
+    return artifact !== undefined && artifacts.has(artifact) && (localFiles.has(name) || name in synced);
+  };
+  const { changed, deleted, manifest: manifestFiles } = diffManifest(remoteHashes, own.files, isDeletable, encryptionChanged);
+
+  const syncedFiles = filterArtifacts(localFiles, artifacts);
+  if (!changed.length && !deleted.length && remoteManifest) {
+    if (job.track) {
+      await writeSyncedState(context, profile.id, syncedFiles);
+      if (artifacts.has('extensions')) await writeSyncedExtensions(context, profile.id, exts);
+      if (remoteMeta?.lastSyncAt) await setLastSyncAt(context, profile.id, remoteMeta.lastSyncAt);
+    }
+    return { upToDate: true, changed: 0, deleted: 0 };
+  }
+
+  const manifest: ProfileManifest = { schemaVersion: 1, files: manifestFiles };
+  const files: FileChange[] = [
+    { path: path.posix.join(profileDir, 'meta.json'), content: JSON.stringify(meta, null, 2) + '\n' },
+    ...changed.map(([name, content]) => ({ path: path.posix.join(profileDir, name), content })),
+    ...deleted.map((name) => ({ path: path.posix.join(profileDir, name), delete: true as const })),
+    { path: path.posix.join(profileDir, MANIFEST_FILE), content: JSON.stringify(manifest, null, 2) + '\n' }
+  ];
+  if (historyEnabled()) {
+    const entry = newHistoryEntry('upload', manifestFiles, { changed: changed.map(([name]) => name), deleted });
+    files.push(await appendHistory(provider, ref, profileDir, [...job.pendingHistory, entry]));
+  }
+
+  await provider.commitFiles(ref, files, `Sync profile ${profile.displayName}`);
+  if (job.track) {
+    for (const name of ['settings.json', 'keybindings.json']) {
+      const content = localFiles.get(name);
+      if (content !== undefined) await writeBaseSnapshot(context, profile.id, name, content);
+    }
+    await writeSyncedState(context, profile.id, syncedFiles);
+    if (artifacts.has('extensions')) await writeSyncedExtensions(context, profile.id, exts);
+    await setLastSyncAt(context, profile.id, job.syncedAt);
+  }
+  return { upToDate: false, changed: changed.length, deleted: deleted.length };
+}
+
+function describePush(result: PushResult) {
+  if (result.upToDate) return 'already up to date';
+  return `${result.changed} file(s) changed${result.deleted ? `, ${result.deleted} deleted` : ''}`;
+}
+
+// Uploads to the primary target and to every mirror. A failing target doesn't stop the others; this machine's sync
+// state is recorded from the first target that took the upload.
+async function upload(context: vscode.ExtensionContext, options: SyncOptions = {}) {
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const profile = await getOrInitProfile(context);
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  const primary: RemoteTarget = {
+    name: 'primary',
+    kind: kind ?? 'github',
+    location: context.globalState.get<string>(STATE_KEYS.localLocation),
+    owner: context.globalState.get<string>(STATE_KEYS.repoOwner),
+    repo: context.globalState.get<string>(STATE_KEYS.repoName)
+  };
+  const targets = [
+    {
+      target: primary,
+      connect: async () => {
+        const provider = await getProvider(context);
+        return { provider, ref: await ensureRemoteReady(context, provider) };
+      }
+    },
+    ...getMirrors(context).map((mirror) => ({ target: mirror, connect: () => connectMirror(context, mirror, 'upload') }))
+  ];
+
+  const job: PushJob = {
+    profile,
+    synced: await readSyncedState(context, profile.id),
+    syncedAt: nowIso(),
+    track: true,
+    pendingHistory: pendingHistory(context, profile.id)
+  };
+  let confirmed = Boolean(options.auto);
+  let tracked: PushResult | undefined = undefined;
+  let primaryError: unknown = undefined;
+  const lines: string[] = [];
+  for (const { target, connect } of targets) {
+    try {
+      const { provider, ref } = await connect();
+      // Nothing has been pushed before the first target that connects, so cancelling here leaves every target untouched
+      if (!confirmed) {
+        if (!(await confirmPendingChanges(context, () => resolveEffectiveProfile(context, provider, ref, basePath, profile.id), 'upload'))) return;
+        confirmed = true;
+      }
+      const result = await pushProfile(context, provider, ref, { ...job, track: !tracked });
+      if (!tracked && !result.upToDate && historyEnabled()) await setPendingHistory(context, profile.id, []);
+      tracked ??= result;
+      lines.push(`OK      ${target.name} (${describeTarget(target)}): ${describePush(result)}`);
+    } catch (e: any) {
+      if (target === primary) primaryError = e;
+      lines.push(`FAILED  ${target.name} (${describeTarget(target)}): ${e?.message || e}`);
+      log.error(`Upload to ${target.name} (${describeTarget(target)}) failed: ${e?.message || e}`);
+    }
+  }
+  // Nothing took the upload: report it like any other failed command
+  if (!tracked) throw primaryError ?? new Error(lines.join('\n'));
+
+  // Renames done on another machine were picked up by the push
+  const displayName = context.globalState.get<string>(STATE_KEYS.profileDisplayName) || profile.displayName;
+  if (targets.length === 1) {
+    const done = tracked.upToDate
+      ? `${displayName} is already up to date on ${describeTarget(primary)}`
+      : `Uploaded settings to ${describeTarget(primary)}/${displayName} (${describePush(tracked)})`;
+    if (options.auto) vscode.window.setStatusBarMessage(`$(cloud-upload) ${done}`, 5000);
+    else vscode.window.showInformationMessage(done);
+    return;
+  }
+
+  const failed = lines.filter((line) => line.startsWith('FAILED')).length;
+  const done = `Uploaded ${displayName} to ${targets.length - failed} of ${targets.length} target(s)${primaryError ? '; the primary failed' : ''}`;
+  if (!failed) {
+    if (options.auto) vscode.window.setStatusBarMessage(`$(cloud-upload) ${done}`, 5000);
+    else vscode.window.showInformationMessage(done);
+    return;
+  }
+  if (options.auto) {
+    vscode.window.setStatusBarMessage(`$(warning) ${done}. ${failed} target(s) failed.`, 10000);
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(`${done}. ${failed} target(s) failed.`, 'Show Details');
+  if (choice !== 'Show Details') return;
+  const uri = memoryDocs.set('reports/mirrors.log', lines.join('\n') + '\n');
+  await vscode.window.showTextDocument(uri, { preview: true });
+}
+
+type LocalApplySource = {
+  profileId: string;
+  files: Map<string, string>;
+  extensions?: ExtensionsSnapshot;
+  artifacts: Set<SyncArtifact>;
+  // Records the result as the last sync (base snapshots, synced state); off for history restores and imports
+  track: boolean;
+  // Used in messages, e.g. "Download cancelled: ..."
+  action: string;
+  backupReason: string;
+  // Extension id (lower case) -> local .vsix to install instead of going through the marketplace
+  vsixFiles?: Map<string, string>;
+};
+
+// Merges `source` into the local profile files and syncs extensions. undefined => a conflict was left unresolved.
+async function applyProfileLocally(
+  context: vscode.ExtensionContext,
+  source: LocalApplySource
+): Promise<{ removed: number; argvChanged: boolean } | undefined> {
+  const { artifacts } = source;
+  const remoteFiles = filterArtifacts(source.files, artifacts);
+  const remoteSettings = remoteFiles.get('settings.json');
+  const remoteKeybindings = remoteFiles.get('keybindings.json');
+
+  const localPaths = await getLocalProfilePaths(context);
+  const settingsPath = localFilePath(localPaths, 'settings.json');
+  const keybindingsPath = localFilePath(localPaths, 'keybindings.json');
+
+  // Merge everything before writing anything, so cancelling a conflict leaves local files untouched.
+  let mergedSettings: string | undefined = undefined;
+  if (remoteSettings !== undefined) {
+    // Ignored keys are left out of the merge entirely, so their local values are never touched.
+    const isIgnored = ignoredSettingsMatcher();
+    mergedSettings = await mergeLocalFile({
+      fileName: 'settings.json',
+      base: await readBaseSnapshot(context, source.profileId, 'settings.json'),
+      local: await readTextIfExists(settingsPath),
+      remote: stripIgnoredSettings(remoteSettings, isIgnored),
+      entries: (text) => new Map([...settingsEntries(text)].filter(([key]) => !isIgnored(key))),
+      apply: applySettingsMerge,
+      describeKey: (key) => key
+    });
+    if (mergedSettings === undefined) {
+      vscode.window.showWarningMessage(`${source.action} cancelled: settings.json conflicts were not resolved.`);
+      return undefined;
+    }
+  }
+
+  let mergedKeybindings: string | undefined = undefined;
+  if (remoteKeybindings !== undefined) {
+    mergedKeybindings = await mergeLocalFile({
+      fileName: 'keybindings.json',
+      base: await readBaseSnapshot(context, source.profileId, 'keybindings.json'),
+      local: await readTextIfExists(keybindingsPath),
+      remote: remoteKeybindings,
+      entries: keybindingEntries,
+      apply: applyKeybindingsMerge,
+      describeKey: describeKeybindingId
+    });
+    if (mergedKeybindings === undefined) {
+      vscode.window.showWarningMessage(`${source.action} cancelled: keybindings.json conflicts were not resolved.`);
+      return undefined;
+    }
+  }
+
+  await createLocalBackup(context, source.backupReason);
+  await ensureDir(localPaths.dir);
+
+  if (remoteSettings !== undefined && mergedSettings !== undefined) {
+    await fs.writeFile(settingsPath, mergedSettings, 'utf8');
+    log.info(`Wrote ${settingsPath}`);
+    if (source.track) await writeBaseSnapshot(context, source.profileId, 'settings.json', remoteSettings);
+  }
+  if (remoteKeybindings !== undefined && mergedKeybindings !== undefined) {
+    await fs.writeFile(keybindingsPath, mergedKeybindings, 'utf8');
+    log.info(`Wrote ${keybindingsPath}`);
+    if (source.track) await writeBaseSnapshot(context, source.profileId, 'keybindings.json', remoteKeybindings);
+  }
+
+  // Snippets, prompts, tasks.json and mcp.json are taken from the remote as a whole
+  let argvChanged = false;
+  for (const [name, remoteContent] of remoteFiles) {
+    if (name === 'settings.json' || name === 'keybindings.json') continue;
+    let content = remoteContent;
+    const target = localFilePath(localPaths, name);
+    const current = await readTextIfExists(target);
+    if (name === 'argv.json') {
+      // Keep this installation's own ids
+      const local = parseJsoncObject(current);
+      for (const key of MACHINE_ARGV_KEYS) if (key in local) content = jsoncSet(content, [key], local[key]);
+      argvChanged = content !== current;
+    }
+    if (content === current) continue;
+    await ensureDir(path.dirname(target));
+    await fs.writeFile(target, content, 'utf8');
+    log.info(`Wrote ${target}`);
+  }
+
+  // Files deleted remotely since the last sync go here too, unless they were edited locally in the meantime.
+  let removed = 0;
+  if (source.track) {
+    for (const [name, hash] of Object.entries(await readSyncedState(context, source.profileId))) {
+      const artifact = artifactOf(name);
+      if (remoteFiles.has(name) || !artifact || !artifacts.has(artifact) || name === 'settings.json' || name === 'keybindings.json') continue;
+      const target = localFilePath(localPaths, name);
+      const current = await readTextIfExists(target);
+      if (current === undefined || sha256(current) !== hash) continue;
+      await fs.rm(target, { force: true });
+      log.info(`Removed ${target} (deleted remotely)`);
+      removed++;
+    }
+    await writeSyncedState(context, source.profileId, stripMachineLocal(await readLocalProfileFiles(localPaths, artifacts)));
+  }
+
+  if (source.extensions && artifacts.has('extensions')) {
+    // Restores and imports leave extensions that are only installed here alone
+    const synced = source.track ? await readSyncedExtensions(context, source.profileId) : new Set<string>();
+    await syncExtensions(source.extensions, synced, source.vsixFiles);
+    if (source.track) await writeSyncedExtensions(context, source.profileId, source.extensions);
+  }
+  return { removed, argvChanged };
+}
+
+async function download(context: vscode.ExtensionContext, options: SyncOptions = {}) {
+  // History restores refer to a commit of the primary, so they never fall back to a mirror
+  const { remote, ref: head } = await connectForDownload(context, !options.commit);
+  const ref: RepoRef = { ...head, commit: options.commit };
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+
+  const profile = await getOrInitProfile(context);
+  // Parent profiles are merged in here, so everything below works on the effective profile.
+  const effective = await resolveEffectiveProfile(context, remote, ref, basePath, profile.id);
+  const remoteMeta = effective.chain[effective.chain.length - 1].meta;
+  if (remoteMeta?.displayName && remoteMeta.displayName !== profile.displayName) {
+    await context.globalState.update(STATE_KEYS.profileDisplayName, remoteMeta.displayName);
+  }
+  const artifacts = profileArtifacts(remoteMeta);
+  if (!options.auto && !(await confirmPendingChanges(context, async () => effective, 'download'))) return;
+
+  const applied = await applyProfileLocally(context, {
+    profileId: profile.id,
+    files: effective.files,
+    extensions: effective.extensions,
+    artifacts,
+    track: !options.commit,
+    action: 'Download',
+    backupReason: options.commit ? `Before restoring ${options.commit.slice(0, 7)}` : 'Before download'
+  });
+  if (!applied) return;
+
+  if (remoteMeta?.lastSyncAt && !options.commit) await setLastSyncAt(context, profile.id, remoteMeta.lastSyncAt);
+  if (historyEnabled() && remoteMeta) {
+    const entry = newHistoryEntry(options.commit ? 'restore' : 'download', hashFiles(filterArtifacts(effective.files, artifacts)), {
+      commit: options.commit
+    });
+    await setPendingHistory(context, profile.id, [...pendingHistory(context, profile.id), entry]);
+  }
+
+  const done = options.commit
+    ? `Restored ${profile.displayName} from ${remote.kind}:${ref.owner}/${ref.repo}@${options.commit.slice(0, 7)}`
+    : `Downloaded settings from ${remote.kind}:${ref.owner}/${ref.repo}/${profile.displayName}${applied.removed ? ` (${applied.removed} file(s) removed)` : ''}`;
+  if (options.auto) vscode.window.setStatusBarMessage(`$(cloud-download) ${done}`, 5000);
+  else vscode.window.showInformationMessage(done);
+
+  if (applied.argvChanged) vscode.window.showInformationMessage('argv.json was updated. Restart VS Code to apply the new runtime arguments.');
+}
+
+const COMMIT_FILE_ICONS: Record<CommitFile['status'], string> = {
+  added: '$(diff-added)',
+  modified: '$(diff-modified)',
+  deleted: '$(diff-removed)',
+  renamed: '$(diff-renamed)'
+};
+
+// Opens `<profileDir>/<name>` as of `ref.commit` against the current local copy.
+async function openHistoryFileDiff(local: LocalProfilePaths, provider: RemoteProvider, ref: RepoRef, profileDir: string, name: string) {
+  const remoteFile = await provider.readFile(ref, path.posix.join(profileDir, name));
+  const left = memoryDocs.set(`history/${ref.commit?.slice(0, 7)}/${name}`, remoteFile?.content ?? '');
+
+  let right: vscode.Uri;
+  if (name === 'extensions.json') {
+    right = memoryDocs.set(`local/${name}`, JSON.stringify(await snapshotExtensions(), null, 2) + '\n');
+  } else if (name === 'meta.json' || name === MANIFEST_FILE) {
+    right = memoryDocs.set(`local/${name}`, '');
+  } else {
+    const localPath = localFilePath(local, name);
+    right = (await readTextIfExists(localPath)) !== undefined ? vscode.Uri.file(localPath) : memoryDocs.set(`local/${name}`, '');
+  }
+  await vscode.commands.executeCommand('vscode.diff', left, right, `${name} (${ref.commit?.slice(0, 7)} ↔ Local)`, {
+    preview: true,
+    preserveFocus: true
+  });
+}
+
+async function showProfileHistory(context: vscode.ExtensionContext) {
+  const remote = await getProvider(context);
+  const head = await ensureRemoteReady(context, remote);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const profile = await getOrInitProfile(context);
+  const profileDir = path.posix.join(basePath, profile.id);
+
+  const commits = await remote.listCommits(head, profileDir, 50);
+  if (!commits.length) {
+    vscode.window.showInformationMessage(`No history yet for profile ${profile.displayName}.`);
+    return;
+  }
+
+  const commitPick = await vscode.window.showQuickPick(
+    commits.map((c) => ({
+      label: c.message.split('\n')[0] || '(no message)',
+      description: c.date ? new Date(c.date).toLocaleString() : undefined,
+      detail: `${c.sha.slice(0, 7)} · ${c.author}`,
+      commit: c
+    })),
+    { placeHolder: `History of ${profile.displayName}`, matchOnDetail: true }
+  );
+  if (!commitPick) return;
+
+  const ref: RepoRef = { ...head, commit: commitPick.commit.sha };
+  const prefix = `${profileDir}/`;
+  const files = (await remote.getCommitFiles(ref, ref.commit!)).filter((f) => normalizeRepoPath(f.path).startsWith(prefix));
+  // Old commits may be encrypted with a different salt, so resolve encryption at that commit.
+  const { provider } = await resolveEncryption(context, remote, ref, profileDir, 'download');
+
+  type Item = vscode.QuickPickItem & { name?: string; restore?: boolean };
+  const items: Item[] = [
+    { label: '$(history) Restore this version', description: commitPick.detail, restore: true },
+    { label: 'Changed files (select to diff with local)', kind: vscode.QuickPickItemKind.Separator },
+    ...files.map((f) => {
+      const name = normalizeRepoPath(f.path).slice(prefix.length);
+      return { label: `${COMMIT_FILE_ICONS[f.status]} ${name}`, description: f.status, name: f.status === 'deleted' ? undefined : name };
+    })
+  ];
+
+  for (;;) {
+    const pick = await vscode.window.showQuickPick(items, { placeHolder: commitPick.label, ignoreFocusOut: true });
+    if (!pick) return;
+    if (pick.name) {
+      await openHistoryFileDiff(await getLocalProfilePaths(context), provider, ref, profileDir, pick.name);
+      continue;
+    }
+    if (!pick.restore) continue;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Restore settings, keybindings, snippets and extensions of ${profile.displayName} from ${commitPick.detail}?`,
+      { modal: true },
+      'Restore'
+    );
+    if (confirm !== 'Restore') return;
+    await download(context, { commit: ref.commit });
+    return;
+  }
+}
+
+const HISTORY_OPERATION_ICONS: Record<HistoryEntry['operation'], string> = {
+  upload: '$(cloud-upload)',
+  download: '$(cloud-download)',
+  restore: '$(history)'
+};
+
+// The journal of the current profile, newest first: which machine synced what, and when.
+async function showSyncHistory(context: vscode.ExtensionContext) {
+  const remote = await getProvider(context);
+  const ref = await ensureRemoteReady(context, remote);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const profile = await getOrInitProfile(context);
+  const profileDir = path.posix.join(basePath, profile.id);
+  const { provider } = await resolveEncryption(context, remote, ref, profileDir, 'download');
+
+  // This machine's downloads since its last upload are not in the remote journal yet
+  const pending = pendingHistory(context, profile.id);
+  const entries = [...(await readHistory(provider, ref, profileDir)), ...pending].reverse();
+  if (!entries.length) {
+    const enable = historyEnabled() ? undefined : 'Turn On';
+    const pick = await vscode.window.showInformationMessage(
+      historyEnabled()
+        ? `No sync history yet for profile ${profile.displayName}. The next upload or download starts it.`
+        : `The sync journal is off, so profile ${profile.displayName} has no history. Turn it on to record every upload and download in ${HISTORY_FILE}.`,
+      ...(enable ? [enable] : []),
+      'Open Sync Log'
+    );
+    if (pick === 'Turn On') await getConfig().update('history.enabled', true, vscode.ConfigurationTarget.Global);
+    if (pick === 'Open Sync Log') log.show();
+    return;
+  }
+
+  const machineId = vscode.env.machineId.slice(0, 12);
+  type Item = vscode.QuickPickItem & { entry?: HistoryEntry };
+  const items: Item[] = [
+    { label: '$(output) Open Sync Log', description: 'Provider calls, files written and extension results on this machine' },
+    { label: `${HISTORY_FILE} of ${profile.displayName}`, kind: vscode.QuickPickItemKind.Separator },
+    ...entries.map((entry) => {
+      const changes = entry.operation === 'upload' ? ` · ${entry.changed?.length ?? 0} changed, ${entry.deleted?.length ?? 0} deleted` : '';
+      return {
+        label: `${HISTORY_OPERATION_ICONS[entry.operation]} ${entry.operation} · ${entry.machine}${entry.machineId === machineId ? ' (this machine)' : ''}`,
+        description: new Date(entry.at).toLocaleString(),
+        detail: `${Object.keys(entry.files ?? {}).length} file(s)${changes} · ${entry.platform} · VS Code ${entry.vscodeVersion}${
+          entry.commit ? ` · from ${entry.commit.slice(0, 7)}` : ''
+        }${pending.includes(entry) ? ' · recorded with the next upload' : ''}`,
+        entry
+      };
+    })
+  ];
+
+  for (;;) {
+    const pick = await vscode.window.showQuickPick(items, { placeHolder: `Sync history of ${profile.displayName}`, matchOnDetail: true });
+    if (!pick) return;
+    if (!pick.entry) {
+      log.show();
+      return;
+    }
+    const uri = memoryDocs.set(`journal/${pick.entry.at.replace(/[:.]/g, '-')}.json`, JSON.stringify(pick.entry, null, 2) + '\n');
+    await vscode.window.showTextDocument(uri, { preview: true });
+  }
+}
+
+type LocalBackupInfo = {
+  id: string;
+  createdAt: string;
+  reason: string;
+  profileDisplayName?: string;
+  // Files relative to the User dir that existed when the backup was taken.
+  files: string[];
+};
+
+function backupsRoot(context: vscode.ExtensionContext) {
+  return path.join(context.globalStorageUri.fsPath, 'backups');
+}
+
+// Snapshot of the synced local state (files + installed extensions), taken before anything overwrites it.
+async function createLocalBackup(context: vscode.ExtensionContext, reason: string): Promise<LocalBackupInfo | undefined> {
+  const retention = Number(getConfig().get('backups.retention') ?? 10);
+  if (retention <= 0) return undefined;
+
+  const createdAt = nowIso();
+  const id = createdAt.replace(/[:.]/g, '-');
+  const dir = path.join(backupsRoot(context), id);
+  const files = await readLocalProfileFiles(await getLocalProfilePaths(context), ALL_ARTIFACTS);
+  for (const [name, content] of files) {
+    const target = path.join(dir, 'files', ...name.split('/'));
+    await ensureDir(path.dirname(target));
+    await fs.writeFile(target, content, 'utf8');
+  }
+  await fs.writeFile(path.join(dir, 'extensions.json'), JSON.stringify(await snapshotExtensions(), null, 2) + '\n', 'utf8');
+
+  const info: LocalBackupInfo = {
+    id,
+    createdAt,
+    reason,
+    profileDisplayName: context.globalState.get<string>(STATE_KEYS.profileDisplayName),
+    files: [...files.keys()]
+  };
+  await fs.writeFile(path.join(dir, 'backup.json'), JSON.stringify(info, null, 2) + '\n', 'utf8');
+  await pruneLocalBackups(context, retention);
+  return info;
+}
+
+async function listLocalBackups(context: vscode.ExtensionContext): Promise<LocalBackupInfo[]> {
+  let ents: Array<{ name: string; isDirectory(): boolean }> = [];
+  try {
+    ents = await fs.readdir(backupsRoot(context), { withFileTypes: true });
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+  const results: LocalBackupInfo[] = [];
+  for (const e of ents.filter((x) => x.isDirectory())) {
+    const info = safeJsonParse<LocalBackupInfo | undefined>((await readTextIfExists(path.join(backupsRoot(context), e.name, 'backup.json'))) ?? '', undefined);
+    if (info?.id) results.push(info);
+  }
+  return results.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function pruneLocalBackups(context: vscode.ExtensionContext, retention: number) {
+  const backups = await listLocalBackups(context);
+  for (const b of backups.slice(retention)) {
+    await fs.rm(path.join(backupsRoot(context), b.id), { recursive: true, force: true });
+  }
+}
+
+// Puts the files and extensions of a backup back, removing synced files that did not exist then.
+async function rollbackToBackup(context: vscode.ExtensionContext, backup: LocalBackupInfo) {
+  // Read the backup before taking the safety backup below: its pruning may delete this one.
+  const dir = path.join(backupsRoot(context), backup.id);
+  const files = new Map<string, string>();
+  for (const name of backup.files) {
+    files.set(name, await fs.readFile(path.join(dir, 'files', ...name.split('/')), 'utf8'));
+  }
+  const exts = safeJsonParse<ExtensionsSnapshot>((await readTextIfExists(path.join(dir, 'extensions.json'))) ?? '', {
+    schemaVersion: 1,
+    generatedAt: nowIso(),
+    extensions: []
+  });
+
+  await createLocalBackup(context, `Before restoring backup ${backup.createdAt}`);
+
+  const localPaths = await getLocalProfilePaths(context);
+  const current = await readLocalProfileFiles(localPaths, ALL_ARTIFACTS);
+
+  for (const [name, content] of files) {
+    const target = localFilePath(localPaths, name);
+    await ensureDir(path.dirname(target));
+    await fs.writeFile(target, content, 'utf8');
+    log.info(`Restored ${target} from backup ${backup.id}`);
+  }
+  for (const name of current.keys()) {
+    if (files.has(name)) continue;
+    await fs.rm(localFilePath(localPaths, name), { force: true });
+    log.info(`Removed ${localFilePath(localPaths, name)} (not in backup ${backup.id})`);
+  }
+
+  // The backup is the whole local state, so everything installed since then goes
+  await syncExtensions(exts, new Set((await snapshotExtensions()).extensions.map((e) => e.id.toLowerCase())));
+}
+
+async function restoreLocalBackup(context: vscode.ExtensionContext) {
+  const backups = await listLocalBackups(context);
+  if (!backups.length) {
+    vscode.window.showInformationMessage('No local backups yet. A backup is taken automatically before each download.');
+    return;
+  }
+
+  const backupPick = await vscode.window.showQuickPick(
+    backups.map((b) => ({
+      label: new Date(b.createdAt).toLocaleString(),
+      description: b.profileDisplayName,
+      detail: `${b.reason} · ${b.files.length} file(s)`,
+      backup: b
+    })),
+    { placeHolder: 'Select a local backup' }
+  );
+  if (!backupPick) return;
+  const backup = backupPick.backup;
+
+  const dir = path.join(backupsRoot(context), backup.id);
+  const localPaths = await getLocalProfilePaths(context);
+  const current = await readLocalProfileFiles(localPaths, ALL_ARTIFACTS);
+  const names = Array.from(new Set([...backup.files, ...current.keys()])).sort();
+
+  type Item = vscode.QuickPickItem & { name?: string; restore?: boolean };
+  const items: Item[] = [{ label: '$(discard) Roll back to this backup', description: backupPick.label, restore: true }];
+  items.push({ label: 'Files (select to diff with current)', kind: vscode.QuickPickItemKind.Separator });
+  for (const name of names) {
+    const before = backup.files.includes(name) ? await readTextIfExists(path.join(dir, 'files', ...name.split('/'))) : undefined;
+    const now = current.get(name);
+    const status = before === undefined ? 'deleted' : now === undefined ? 'added' : before === now ? 'unchanged' : 'modified';
+    items.push({ label: `${CHANGE_ICONS[status]} ${name}`, description: status, name });
+  }
+
+  for (;;) {
+    const pick = await vscode.window.showQuickPick(items, { placeHolder: `Backup from ${backupPick.label}`, ignoreFocusOut: true });
+    if (!pick) return;
+    if (pick.name) {
+      const backupPath = path.join(dir, 'files', ...pick.name.split('/'));
+      const localPath = localFilePath(localPaths, pick.name);
+      const left = backup.files.includes(pick.name) ? vscode.Uri.file(backupPath) : memoryDocs.set(`backup/${pick.name}`, '');
+      const right = current.has(pick.name) ? vscode.Uri.file(localPath) : memoryDocs.set(`local/${pick.name}`, '');
+      await vscode.commands.executeCommand('vscode.diff', left, right, `${pick.name} (Backup ↔ Current)`, { preview: true, preserveFocus: true });
+      continue;
+    }
+    if (!pick.restore) continue;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Roll back settings, keybindings, snippets and extensions to the backup from ${backupPick.label}? The current state is backed up first.`,
+      { modal: true },
+      'Roll Back'
+    );
+    if (confirm !== 'Roll Back') return;
+    await rollbackToBackup(context, backup);
+    vscode.window.showInformationMessage(`Restored local backup from ${backupPick.label}.`);
+    return;
+  }
+}
+
+async function pickLocalLocation(kind: ProviderKind): Promise<string | undefined> {
+  if (kind === 'folder') {
+    const picked = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: 'Use this folder for synced profiles'
+    });
+    return picked?.[0]?.fsPath;
+  }
+  const location = await vscode.window.showInputBox({
+    prompt: 'Git repository: remote URL (ssh/https) or absolute path to a local/bare repository',
+    placeHolder: 'git@git.example.com:me/vscode-settings-sync.git or /mnt/share/vscode-settings-sync.git',
+    ignoreFocusOut: true
+  });
+  return location?.trim() || undefined;
+}
+
+type TargetAccess = {
+  kind: ProviderKind;
+  label: string;
+  location?: string;
+  token?: string;
+  apiBaseUrl?: string;
+  // Unset for a pasted token
+  auth?: AuthMode;
+  oauthSession?: OAuthSession;
+};
+
+// Provider, then folder/git location or host and token. `allowSignIn` offers a VS Code / OAuth sign-in
+// instead of a token where the host supports it (primary target only). undefined => cancelled.
+async function promptTargetAccess(context: vscode.ExtensionContext, allowSignIn = false): Promise<TargetAccess | undefined> {
+  const providerPick = await vscode.window.showQuickPick<{ label: string; description?: string; providerKind: ProviderKind }>(
+    [
+      { label: 'GitHub', description: 'github.com or GitHub Enterprise', providerKind: 'github' },
+      { label: 'Gitee', providerKind: 'gitee' },
+      { label: 'GitLab', description: 'gitlab.com or self-hosted', providerKind: 'gitlab' },
+      { label: 'Gitea / Forgejo', description: 'Self-hosted', providerKind: 'gitea' },
+      { label: 'Local folder', description: 'Network share, Syncthing, Dropbox, ...', providerKind: 'folder' },
+      { label: 'Git repository', description: 'Local/bare repo or self-managed remote via system git', providerKind: 'git' }
+    ],
+    { placeHolder: 'Choose provider (GitHub/Gitee/GitLab/Gitea/Local folder/Git)' }
+  );
+  if (!providerPick) return undefined;
+  const { label, providerKind } = providerPick;
+
+  if (isLocalProviderKind(providerKind)) {
+    const location = await pickLocalLocation(providerKind);
+    return location ? { kind: providerKind, label, location } : undefined;
+  }
+  const kind = providerKind as HostedProviderKind;
+  const host = await vscode.window.showInputBox({
+    prompt: `${label} host (leave the default for the public service, or enter your self-hosted / Enterprise URL)`,
+    value: kind === 'gitea' ? '' : kind === 'github' ? 'https://github.com' : new URL(DEFAULT_API_BASE_URLS[kind]).origin,
+    placeHolder: 'https://git.example.com',
+    ignoreFocusOut: true
+  });
+  if (host === undefined) return undefined;
+  if (kind === 'gitea' && !host.trim()) return undefined;
+  const apiBaseUrl = apiBaseUrlFor(kind, host);
+
+  // VS Code's built-in GitHub account only covers github.com
+  const signIn = allowSignIn && (kind === 'gitee' || (kind === 'github' && apiBaseUrl === DEFAULT_API_BASE_URLS.github));
+  if (signIn) {
+    const method = await vscode.window.showQuickPick(
+      [
+        {
+          label: kind === 'github' ? '$(github) Sign in with GitHub' : '$(globe) Sign in with Gitee',
+          description: kind === 'github' ? 'Uses the GitHub account of VS Code' : 'Authorize in the browser (OAuth)',
+          signIn: true
+        },
+        { label: '$(key) Paste a Personal Access Token', signIn: false }
+      ],
+      { placeHolder: `How to authenticate with ${label}` }
+    );
+    if (!method) return undefined;
+    if (method.signIn && kind === 'github') {
+      const token = await signInToGitHub();
+      return token ? { kind, label, token, apiBaseUrl, auth: 'vscode' } : undefined;
+    }
+    if (method.signIn) {
+      const oauthSession = await signInToGitee(context, apiBaseUrl);
+      return oauthSession ? { kind, label, token: oauthSession.accessToken, apiBaseUrl, auth: 'oauth', oauthSession } : undefined;
+    }
+  }
+
+  const token = await vscode.window.showInputBox({
+    prompt: `${label} Personal Access Token`,
+    password: true,
+    ignoreFocusOut: true
+  });
+  if (!token) return undefined;
+  return { kind, label, token, apiBaseUrl };
+}
+
+async function configure(context: vscode.ExtensionContext) {
+  const access = await promptTargetAccess(context, true);
+  if (!access) return;
+  if (access.location) await context.globalState.update(STATE_KEYS.localLocation, access.location);
+  if (access.token) {
+    await context.globalState.update(STATE_KEYS.apiBaseUrl, access.apiBaseUrl);
+    // Signed-in targets keep no pasted token around
+    if (access.auth) await context.secrets.delete(SECRET_KEYS.token);
+    else await context.secrets.store(SECRET_KEYS.token, access.token);
+    if (access.oauthSession) await context.secrets.store(SECRET_KEYS.oauthSession, JSON.stringify(access.oauthSession));
+    else await context.secrets.delete(SECRET_KEYS.oauthSession);
+    await context.globalState.update(STATE_KEYS.auth, access.auth);
+  }
+
+  await context.globalState.update(STATE_KEYS.provider, access.kind);
+  // Re-resolve the default branch of the (possibly different) repo
+  await context.globalState.update(STATE_KEYS.branch, undefined);
+
+  let provider = await getProvider(context);
+  let login: string;
+  try {
+    login = await provider.getViewerLogin();
+  } catch (e) {
+    // The session VS Code remembered was revoked on github.com: ask for a new one, once
+    if (access.auth !== 'vscode' || !isHttpStatus(e, 401) || !(await signInToGitHub(true))) throw e;
+    provider = await getProvider(context);
+    login = await provider.getViewerLogin();
+  }
+  await context.globalState.update(STATE_KEYS.repoOwner, login);
+
+  // Ensure profile exists locally, but do NOT create remote files until first upload/download
+  await getOrInitProfile(context);
+  await ensureRemoteReady(context, provider);
+
+  vscode.window.showInformationMessage(`Configured ${access.label} as ${login}. Repo will be auto-created if missing.`);
+}
+
+async function addMirror(context: vscode.ExtensionContext) {
+  const access = await promptTargetAccess(context);
+  if (!access) return;
+  const mirrors = getMirrors(context);
+  const name = (
+    await vscode.window.showInputBox({
+      prompt: 'Name of this mirror',
+      value: access.kind,
+      ignoreFocusOut: true,
+      validateInput: (v) => (mirrors.some((m) => m.name === v.trim()) ? 'A mirror with this name already exists' : undefined)
+    })
+  )?.trim();
+  if (!name) return;
+
+  let repo: string | undefined = undefined;
+  if (!access.location) {
+    repo = (
+      await vscode.window.showInputBox({ prompt: 'Repository name', value: String(getConfig().get('repoName') || 'vscode-settings-sync'), ignoreFocusOut: true })
+    )?.trim();
+    if (!repo) return;
+  }
+
+  const target: RemoteTarget = { name, kind: access.kind, location: access.location, apiBaseUrl: access.apiBaseUrl, repo };
+  if (access.token) await context.secrets.store(mirrorTokenKey(name), access.token);
+  await context.globalState.update(STATE_KEYS.mirrors, [...mirrors, target]);
+  try {
+    await connectMirror(context, target, 'upload');
+  } catch (e) {
+    await removeMirror(context, target);
+    throw e;
+  }
+  vscode.window.showInformationMessage(`Added mirror "${name}". The next upload also goes there.`);
+}
+
+async function removeMirror(context: vscode.ExtensionContext, target: RemoteTarget) {
+  await context.globalState.update(STATE_KEYS.mirrors, getMirrors(context).filter((m) => m.name !== target.name));
+  await context.secrets.delete(mirrorTokenKey(target.name));
+}
+
+// Swaps a mirror with the primary target: downloads, history and profile management then use it.
+async function makeMirrorPrimary(context: vscode.ExtensionContext, target: RemoteTarget) {
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  const mirrors = getMirrors(context).filter((m) => m.name !== target.name);
+  const token = await context.secrets.get(mirrorTokenKey(target.name));
+
+  if (kind) {
+    const previousName = (
+      await vscode.window.showInputBox({
+        prompt: 'The current primary becomes a mirror. Name it',
+        value: kind,
+        ignoreFocusOut: true,
+        validateInput: (v) => (mirrors.some((m) => m.name === v.trim()) ? 'A mirror with this name already exists' : undefined)
+      })
+    )?.trim();
+    if (!previousName) return;
+    // Mirrors only keep a token: a signed-in primary hands over its current access token, which lapses
+    // with the session (Gitee OAuth tokens last a day). Re-add the mirror with a PAT if that happens.
+    const previousToken = isLocalProviderKind(kind) ? undefined : await getPrimaryToken(context, kind as HostedProviderKind);
+    if (previousToken) await context.secrets.store(mirrorTokenKey(previousName), previousToken);
+    mirrors.push({
+      name: previousName,
+      kind,
+      location: isLocalProviderKind(kind) ? context.globalState.get<string>(STATE_KEYS.localLocation) : undefined,
+      apiBaseUrl: isLocalProviderKind(kind) ? undefined : context.globalState.get<string>(STATE_KEYS.apiBaseUrl),
+      owner: context.globalState.get<string>(STATE_KEYS.repoOwner),
+      repo: String(getConfig().get('repoName') || 'vscode-settings-sync'),
+      branch: context.globalState.get<string>(STATE_KEYS.branch)
+    });
+  }
+
+  await context.globalState.update(STATE_KEYS.provider, target.kind);
+  await context.globalState.update(STATE_KEYS.localLocation, target.location);
+  await context.globalState.update(STATE_KEYS.apiBaseUrl, target.apiBaseUrl);
+  await context.globalState.update(STATE_KEYS.repoOwner, target.owner);
+  await context.globalState.update(STATE_KEYS.branch, target.branch);
+  await context.globalState.update(STATE_KEYS.auth, undefined);
+  await context.secrets.delete(SECRET_KEYS.oauthSession);
+  if (token) await context.secrets.store(SECRET_KEYS.token, token);
+  if (target.repo && target.repo !== getConfig().get('repoName')) {
+    await getConfig().update('repoName', target.repo, vscode.ConfigurationTarget.Global);
+  }
+  await context.secrets.delete(mirrorTokenKey(target.name));
+  await context.globalState.update(STATE_KEYS.mirrors, mirrors);
+  vscode.window.showInformationMessage(`"${target.name}" is now the primary target.`);
+}
+
+async function signOut(context: vscode.ExtensionContext) {
+  const forget = 'Sign Out and Forget Passphrase';
+  const pick = await vscode.window.showWarningMessage(
+    'Sign out of sync? Tokens and sign-in sessions of the primary target and all mirrors are removed from this machine. Synced data is kept.',
+    { modal: true },
+    'Sign Out',
+    forget
+  );
+  if (!pick) return;
+  const auth = context.globalState.get<AuthMode>(STATE_KEYS.auth);
+  for (const key of [SECRET_KEYS.token, SECRET_KEYS.oauthSession, SECRET_KEYS.giteeClientSecret, ...getMirrors(context).map((m) => mirrorTokenKey(m.name))]) {
+    await context.secrets.delete(key);
+  }
+  if (pick === forget) await context.secrets.delete(SECRET_KEYS.passphrase);
+  await context.globalState.update(STATE_KEYS.auth, undefined);
+  vscode.window.showInformationMessage(
+    auth === 'vscode'
+      ? 'Signed out. Your GitHub account stays signed in to VS Code; remove its access to this extension from the Accounts menu if needed.'
+      : 'Signed out. Run "Sync VSCode Settings: Configure" to sign in again.'
+  );
+}
+
+async function manageRemoteTargets(context: vscode.ExtensionContext) {
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  const primary = kind
+    ? isLocalProviderKind(kind)
+      ? `${kind}:${context.globalState.get<string>(STATE_KEYS.localLocation) ?? '?'}`
+      : `${kind}:${context.globalState.get<string>(STATE_KEYS.repoOwner) ?? '?'}/${String(getConfig().get('repoName') || 'vscode-settings-sync')}`
+    : 'not configured';
+
+  type Item = vscode.QuickPickItem & { mirror?: RemoteTarget; action?: 'add' | 'configure' };
+  const items: Item[] = [
+    { label: '$(star-full) Primary', description: primary, detail: 'Downloads come from here; change it with Configure', action: 'configure' },
+    ...getMirrors(context).map((m) => ({ label: `$(mirror) ${m.name}`, description: describeTarget(m), mirror: m })),
+    { label: '$(add) Add Mirror...', action: 'add' }
+  ];
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: 'Uploads go to the primary and every mirror' });
+  if (!pick) return;
+  if (pick.action === 'configure') await configure(context);
+  else if (pick.action === 'add') await addMirror(context);
+  if (!pick.mirror) return;
+
+  const mirror = pick.mirror;
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: '$(star-empty) Make Primary', description: 'The current primary becomes a mirror', action: 'primary' as const },
+      { label: '$(trash) Remove', description: 'Only stops mirroring; nothing is deleted remotely', action: 'remove' as const }
+    ],
+    { placeHolder: mirror.name }
+  );
+  if (!action) return;
+  if (action.action === 'primary') {
+    await makeMirrorPrimary(context, mirror);
+  } else {
+    await removeMirror(context, mirror);
+    vscode.window.showInformationMessage(`Removed mirror "${mirror.name}".`);
+  }
+}
+
+type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+// One step of Run Diagnostics; `fix` is shown for warnings and failures.
+type DiagnosticCheck = { name: string; status: DiagnosticStatus; detail: string; fix?: string };
+
+type AddCheck = (name: string, status: DiagnosticStatus, detail: string, fix?: string) => void;
+
+// Beyond this, timestamps compared across machines (lastSyncAt, token expiry) stop being trustworthy
+const CLOCK_SKEW_LIMIT_MS = 5 * 60_000;
+
+const DIAGNOSTIC_LABELS: Record<DiagnosticStatus, string> = { pass: 'PASS', warn: 'WARN', fail: 'FAIL', skip: 'SKIP' };
+
+function failureFix(e: unknown, fallback: string): string {
+  if (e instanceof HttpError) {
+    if (e.isRateLimited) return 'Wait for the rate limit to reset, then run the diagnostics again.';
+    if (e.status === 401) return 'The token was rejected (expired or revoked). Run "Sync VSCode Settings: Configure" to sign in again or paste a new token.';
+    if (e.status === 403) return 'Give the token read/write access to repository contents (GitHub: `repo` scope, GitLab: `api` scope), then run Configure again.';
+    return fallback;
+  }
+  // fetch() rejects with a TypeError when the host cannot be reached at all
+  if (e instanceof TypeError) return 'Check the network connection, the proxy (`http.proxy`) and the host entered in Configure.';
+  return fallback;
+}
+
+// Checks every step a sync goes through, in order, and opens a report with a suggested fix per failure.
+async function runDiagnostics(context: vscode.ExtensionContext) {
+  const checks: DiagnosticCheck[] = [];
+  const add: AddCheck = (name, status, detail, fix) => checks.push({ name, status, detail, fix });
+
+  await diagnoseRemote(context, add);
+  await diagnoseLocalUserDir(add);
+  await diagnoseClock(context, add);
+
+  const failed = checks.filter((c) => c.status === 'fail').length;
+  const warned = checks.filter((c) => c.status === 'warn').length;
+  const lines = [
+    '# Sync VSCode Settings: Diagnostics',
+    '',
+    `${nowIso()} · ${vscode.env.appName} ${vscode.version} · ${process.platform}`,
+    '',
+    failed || warned ? `**${failed} failed, ${warned} warning(s).**` : '**All checks passed.**',
+    ''
+  ];
+  for (const c of checks) {
+    lines.push(`- **${DIAGNOSTIC_LABELS[c.status]}** ${c.name}: ${c.detail}`);
+    if (c.fix && (c.status === 'fail' || c.status === 'warn')) lines.push(`  - Fix: ${c.fix}`);
+  }
+  const uri = memoryDocs.set('reports/diagnostics.md', lines.join('\n') + '\n');
+  await vscode.window.showTextDocument(uri, { preview: true });
+}
+
+// Read-only: nothing is created or written remotely, and no stored state changes.
+async function diagnoseRemote(context: vscode.ExtensionContext, add: AddCheck) {
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  if (!kind) {
+    add('Configuration', 'fail', 'No remote target is configured.', 'Run "Sync VSCode Settings: Configure".');
+    return;
+  }
+  const location = context.globalState.get<string>(STATE_KEYS.localLocation);
+  if (isLocalProviderKind(kind)) {
+    if (!location) {
+      add('Configuration', 'fail', `${kind} target without a location.`, 'Run "Sync VSCode Settings: Configure" and pick the folder or repository again.');
+      return;
+    }
+    add('Configuration', 'pass', `${kind}: ${location}`);
+  } else {
+    const apiBaseUrl = context.globalState.get<string>(STATE_KEYS.apiBaseUrl) || DEFAULT_API_BASE_URLS[kind as HostedProviderKind];
+    add('Configuration', 'pass', `${kind} at ${apiBaseUrl}`);
+    const auth = context.globalState.get<AuthMode>(STATE_KEYS.auth) ?? 'token';
+    try {
+      if (!(await getPrimaryToken(context, kind as HostedProviderKind))) {
+        add('Token', 'fail', 'No token in Secret Storage.', 'Run "Sync VSCode Settings: Configure" to paste a token or sign in.');
+        return;
+      }
+      add('Token', 'pass', auth === 'vscode' ? 'VS Code GitHub session' : auth === 'oauth' ? 'Gitee OAuth session' : 'Personal access token in Secret Storage');
+    } catch (e: any) {
+      add('Token', 'fail', String(e?.message || e), 'Run "Sync VSCode Settings: Configure" to sign in again.');
+      return;
+    }
+  }
+
+  let provider: RemoteProvider;
+  let login: string;
+  try {
+    provider = await getProvider(context);
+    login = await provider.getViewerLogin();
+    add('Sign in', 'pass', `Signed in as ${login}`);
+  } catch (e: any) {
+    add('Sign in', 'fail', String(e?.message || e), failureFix(e, 'Check the host entered in Configure.'));
+    return;
+  }
+
+  const owner = context.globalState.get<string>(STATE_KEYS.repoOwner) || login;
+  const repo = String(getConfig().get('repoName') || 'vscode-settings-sync');
+  const storedBranch = context.globalState.get<string>(STATE_KEYS.branch) || undefined;
+  const name = isLocalProviderKind(kind) ? location! : `${owner}/${repo}`;
+  let access: RepoAccess;
+  try {
+    access = await provider.getRepoAccess(owner, repo, storedBranch);
+  } catch (e: any) {
+    add('Repository', 'fail', String(e?.message || e), failureFix(e, 'Check the repository settings in Configure.'));
+    return;
+  }
+
+  const neededScopes = kind === 'github' ? ['repo', ...(access.isPrivate === false ? ['public_repo'] : [])] : kind === 'gitlab' ? ['api'] : [];
+  if (access.scopes && neededScopes.length && !neededScopes.some((x) => access.scopes!.includes(x))) {
+    add(
+      'Token permissions',
+      'fail',
+      `The token has the scopes: ${access.scopes.join(', ') || 'none'}.`,
+      `Create a token with the \`${neededScopes[0]}\` scope and run Configure again.`
+    );
+  } else if (access.canWrite === false) {
+    add('Token permissions', 'fail', `${login} can read ${name} but not write to it.`, 'Use an account or token with write (push) access to the repository.');
+  } else if (access.scopes || access.canWrite) {
+    add('Token permissions', 'pass', access.scopes ? `Scopes: ${access.scopes.join(', ')}` : 'Read and write access');
+  } else {
+    add('Token permissions', 'skip', 'Not reported for this target; the next upload shows whether writes work.');
+  }
+
+  if (!access.exists) {
+    add(
+      'Repository',
+      'fail',
+      `${name} does not exist or is not visible to ${login}.`,
+      isLocalProviderKind(kind)
+        ? 'Upload once to create it, or pick another location in Configure.'
+        : 'Upload once to create it, or create it yourself and check "syncVsCodeSettings.repoName".'
+    );
+    return;
+  }
+  add('Repository', 'pass', `${name} exists`);
+
+  if (access.isPrivate === undefined) {
+    add('Private repository', 'skip', 'Not applicable to folder and git targets.');
+  } else if (access.isPrivate) {
+    add('Private repository', 'pass', 'Private');
+  } else if (getConfig().get('encryption.enabled')) {
+    add('Private repository', 'pass', 'Public, but synced files are encrypted');
+  } else {
+    add(
+      'Private repository',
+      'warn',
+      'The repository is public: anyone can read the synced settings.',
+      'Make it private in the repository settings, or turn on "syncVsCodeSettings.encryption.enabled".'
+    );
+  }
+
+  const branch = access.branch ?? storedBranch;
+  if (access.branchExists === undefined) {
+    add('Branch', 'skip', 'Folder targets have no branches.');
+  } else if (!access.branchExists) {
+    add(
+      'Branch',
+      'fail',
+      `Branch "${branch}" does not exist.`,
+      storedBranch
+        ? 'The stored branch is gone. Run "Sync VSCode Settings: Configure" again to detect the default branch.'
+        : 'The repository has no commits yet; create an initial commit (e.g. a README) and upload again.'
+    );
+  } else if (access.branchWritable === false) {
+    add('Branch', 'fail', `Branch "${branch}" is protected and ${login} cannot push to it.`, 'Allow pushes for this account in the branch protection rules.');
+  } else if (access.branchProtected && access.branchWritable === undefined) {
+    add('Branch', 'warn', `Branch "${branch}" is protected.`, 'Uploads fail if the protection rules require pull requests; allow direct pushes for this account.');
+  } else {
+    add('Branch', 'pass', `Branch "${branch}" exists${access.branchWritable ? ' and accepts pushes' : ''}`);
+  }
+  if (!branch || access.branchExists === false) return;
+
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  try {
+    const profiles = (await provider.listDir({ owner, repo, branch }, basePath)).filter((x) => x.type === 'dir');
+    add('Profiles folder', 'pass', profiles.length ? `"${basePath}" holds ${profiles.length} profile(s)` : `"${basePath}" is empty (nothing uploaded yet)`);
+  } catch (e: any) {
+    add('Profiles folder', 'fail', String(e?.message || e), failureFix(e, 'Check "syncVsCodeSettings.basePath".'));
+  }
+}
+
+async function diagnoseLocalUserDir(add: AddCheck) {
+  const fix = 'Set "syncVsCodeSettings.localUserDataDir" to the data folder of this VS Code (the folder that contains "User").';
+  let userDir: string;
+  try {
+    userDir = await getLocalUserDir();
+  } catch (e: any) {
+    add('Local settings folder', 'fail', String(e?.message || e), fix);
+    return;
+  }
+  if (!(await isDirectory(userDir))) add('Local settings folder', 'fail', `${userDir} does not exist.`, fix);
+  else if (!(await isWritable(userDir))) add('Local settings folder', 'fail', `${userDir} is not writable.`, 'Fix the folder permissions, or point "syncVsCodeSettings.localUserDataDir" elsewhere.');
+  else add('Local settings folder', 'pass', `${userDir} exists and is writable`);
+}
+
+async function diagnoseClock(context: vscode.ExtensionContext, add: AddCheck) {
+  const fix = 'Turn on automatic time synchronization (NTP) in the system settings.';
+  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
+  if (!kind || isLocalProviderKind(kind)) {
+    add('Clock', 'skip', 'No server to compare with for folder and git targets.');
+  } else {
+    const apiBaseUrl = context.globalState.get<string>(STATE_KEYS.apiBaseUrl) || DEFAULT_API_BASE_URLS[kind as HostedProviderKind];
+    // Any status will do, only the Date header is read
+    const serverDate = await fetchWithTimeout(apiBaseUrl, { method: 'HEAD' })
+      .then((res) => Date.parse(res.headers.get('date') ?? ''))
+      .catch(() => NaN);
+    if (Number.isNaN(serverDate)) {
+      add('Clock', 'skip', `${new URL(apiBaseUrl).host} did not report its time.`);
+    } else {
+      const skew = Date.now() - serverDate;
+      const seconds = Math.round(Math.abs(skew) / 1000);
+      if (Math.abs(skew) > CLOCK_SKEW_LIMIT_MS) {
+        add('Clock', 'fail', `This machine is ${seconds} s ${skew > 0 ? 'ahead of' : 'behind'} ${new URL(apiBaseUrl).host}.`, fix);
+      } else {
+        add('Clock', 'pass', `Within ${seconds} s of ${new URL(apiBaseUrl).host}`);
+      }
+    }
+  }
+
+  const lastSyncAt = getLastSyncAt(context, context.globalState.get<string>(STATE_KEYS.profileId));
+  if (lastSyncAt && Date.parse(lastSyncAt) - Date.now() > CLOCK_SKEW_LIMIT_MS) {
+    add('Last sync time', 'warn', `The last sync on this machine is dated ${lastSyncAt}, in the future.`, `${fix} Remote update checks compare these times.`);
+  }
+}
+
+async function switchProfile(context: vscode.ExtensionContext) {
+  const provider = await getProvider(context);
+  const ref = await ensureRemoteReady(context, provider);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+
+  const remoteProfiles = await listRemoteProfiles(provider, ref, basePath);
+  const currentId = context.globalState.get<string>(STATE_KEYS.profileId);
+
+  const picks: Array<vscode.QuickPickItem & { id?: string; action?: 'create' }> = [
+    { label: '$(add) Create new profile', description: 'Create a new remote profile directory', action: 'create' }
+  ];
+
+  const names = new Map(remoteProfiles.map((p) => [p.id, p.meta.displayName || p.id]));
+  for (const p of remoteProfiles.sort((a, b) => (a.meta.displayName || a.id).localeCompare(b.meta.displayName || b.id))) {
+    const inherits = describeChain(p.meta, names);
+    picks.push({
+      label: p.meta.displayName || p.id,
+      description: p.id === currentId ? 'current' : undefined,
+      detail: `lastSyncAt: ${p.meta.lastSyncAt || 'never'}${inherits ? ` · inherits: ${inherits}` : ''}`,
+      id: p.id
+    });
+  }
+
+  const pick = await vscode.window.showQuickPick(picks, { placeHolder: 'Select a profile' });
+  if (!pick) return;
+
+  if (pick.action === 'create') {
+    const displayName = await vscode.window.showInputBox({ prompt: 'Profile display name (e.g. vue / csharp)', ignoreFocusOut: true });
+    if (!displayName) return;
+
+    let parents: string[] = [];
+    if (remoteProfiles.length) {
+      const parentPicks = await vscode.window.showQuickPick(
+        remoteProfiles.map((p) => ({ label: p.meta.displayName || p.id, description: describeChain(p.meta, names) || undefined, id: p.id })),
+        { canPickMany: true, placeHolder: 'Inherit from (optional): settings, keybindings, snippets and extensions of these profiles', ignoreFocusOut: true }
+      );
+      if (!parentPicks) return;
+      parents = parentPicks.map((p) => p.id);
+    }
+
+    // create deterministic-ish id: sha(displayName + random) shortened
+    const id = sha256(`${displayName}:${crypto.randomUUID()}`).slice(0, 12);
+    const meta: ProfileMeta = {
+      schemaVersion: 1,
+      id,
+      displayName,
+      createdAt: nowIso(),
+      platform: process.platform,
+      vscodeVersion: vscode.version,
+      ...(parents.length ? { parents } : {})
+    };
+
+    const profileDir = path.posix.join(basePath, id);
+    await provider.writeFile(ref, path.posix.join(profileDir, 'meta.json'), JSON.stringify(meta, null, 2) + '\n', `Create profile ${displayName}`);
+
+    await context.globalState.update(STATE_KEYS.profileId, id);
+    await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+
+    vscode.window.showInformationMessage(`Switched to profile: ${displayName}`);
+    return;
+  }
+
+  if (pick.id) {
+    const matched = remoteProfiles.find((p) => p.id === pick.id);
+    await context.globalState.update(STATE_KEYS.profileId, pick.id);
+    await context.globalState.update(STATE_KEYS.profileDisplayName, matched?.meta.displayName || pick.label);
+    vscode.window.showInformationMessage(`Switched to profile: ${matched?.meta.displayName || pick.label}`);
+  }
+}
+
+async function renameProfile(context: vscode.ExtensionContext, provider: RemoteProvider, ref: RepoRef, basePath: string, target: RemoteProfile) {
+  const displayName = (
+    await vscode.window.showInputBox({ prompt: 'New display name', value: target.meta.displayName, ignoreFocusOut: true })
+  )?.trim();
+  if (!displayName || displayName === target.meta.displayName) return;
+
+  const meta: ProfileMeta = { ...target.meta, displayName };
+  const metaPath = path.posix.join(basePath, target.id, 'meta.json');
+  await provider.writeFile(ref, metaPath, JSON.stringify(meta, null, 2) + '\n', `Rename profile ${target.meta.displayName} to ${displayName}`);
+  if (context.globalState.get<string>(STATE_KEYS.profileId) === target.id) await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+  vscode.window.showInformationMessage(`Renamed profile ${target.meta.displayName} to ${displayName}.`);
+}
+
+// Copies every file as stored, so an encrypted profile stays encrypted with the same passphrase.
+async function duplicateProfile(context: vscode.ExtensionContext, provider: RemoteProvider, ref: RepoRef, basePath: string, target: RemoteProfile) {
+  const displayName = (
+    await vscode.window.showInputBox({ prompt: 'Display name of the copy', value: `${target.meta.displayName} copy`, ignoreFocusOut: true })
+  )?.trim();
+  if (!displayName) return;
+
+  const id = sha256(`${displayName}:${crypto.randomUUID()}`).slice(0, 12);
+  const sourceDir = path.posix.join(basePath, target.id);
+  const names = await listRemoteFilesRecursive(provider, ref, sourceDir);
+  const contents = await mapLimit(names, REMOTE_PARALLELISM, (name) => provider.readFile(ref, path.posix.join(sourceDir, name)));
+
+  const meta: ProfileMeta = { ...target.meta, id, displayName, createdAt: nowIso(), lastSyncAt: undefined };
+  const files: FileChange[] = [{ path: path.posix.join(basePath, id, 'meta.json'), content: JSON.stringify(meta, null, 2) + '\n' }];
+  names.forEach((name, i) => {
+    // The copy starts its own journal
+    if (name === 'meta.json' || name === HISTORY_FILE || !contents[i]) return;
+    files.push({ path: path.posix.join(basePath, id, name), content: contents[i]!.content });
+  });
+  await provider.commitFiles(ref, files, `Duplicate profile ${target.meta.displayName} as ${displayName}`);
+
+  const pick = await vscode.window.showInformationMessage(`Created profile ${displayName} from ${target.meta.displayName}.`, 'Switch to It');
+  if (pick !== 'Switch to It') return;
+  await context.globalState.update(STATE_KEYS.profileId, id);
+  await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+}
+
+async function deleteProfile(
+  context: vscode.ExtensionContext,
+  provider: RemoteProvider,
+  ref: RepoRef,
+  basePath: string,
+  target: RemoteProfile,
+  profiles: RemoteProfile[]
+) {
+  if (context.globalState.get<string>(STATE_KEYS.profileId) === target.id) {
+    vscode.window.showWarningMessage(`${target.meta.displayName} is the current profile. Switch to another profile before deleting it.`);
+    return;
+  }
+  const children = profiles.filter((p) => p.meta.parents?.includes(target.id));
+  if (children.length) {
+    const names = children.map((p) => p.meta.displayName || p.id).join(', ');
+    vscode.window.showWarningMessage(`Cannot delete ${target.meta.displayName}: ${names} inherit(s) from it.`);
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Delete profile ${target.meta.displayName} and all of its files from ${provider.kind}:${ref.owner}/${ref.repo}? Git-based storage keeps it in the history.`,
+    { modal: true },
+    'Delete'
+  );
+  if (confirm !== 'Delete') return;
+
+  const profileDir = path.posix.join(basePath, target.id);
+  const names = await listRemoteFilesRecursive(provider, ref, profileDir);
+  // The whole directory goes in one commit through the tree operation every provider has
+  await provider.commitFiles(
+    ref,
+    names.map((name) => ({ path: path.posix.join(profileDir, name), delete: true as const })),
+    `Delete profile ${target.meta.displayName}`
+  );
+
+  // Local state kept for the profile
+  await fs.rm(path.join(context.globalStorageUri.fsPath, 'base', target.id), { recursive: true, force: true });
+  await fs.rm(remoteCacheDir(context, profileDir), { recursive: true, force: true });
+  const links = { ...(context.globalState.get<Record<string, string>>(STATE_KEYS.nativeProfiles) ?? {}) };
+  if (target.id in links) {
+    delete links[target.id];
+    await context.globalState.update(STATE_KEYS.nativeProfiles, links);
+  }
+  vscode.window.showInformationMessage(`Deleted profile ${target.meta.displayName}.`);
+}
+
+// Per-file diff of two profiles as they would be downloaded here (decrypted, parents and this OS's overlays applied).
+async function compareProfiles(
+  context: vscode.ExtensionContext,
+  provider: RemoteProvider,
+  ref: RepoRef,
+  basePath: string,
+  target: RemoteProfile,
+  profiles: RemoteProfile[]
+) {
+  const otherPick = await vscode.window.showQuickPick(
+    profiles.filter((p) => p.id !== target.id).map((p) => ({ label: p.meta.displayName || p.id, profile: p })),
+    { placeHolder: `Compare ${target.meta.displayName} with` }
+  );
+  if (!otherPick) return;
+  const other = otherPick.profile;
+
+  const snapshot = async (p: RemoteProfile) => {
+    const effective = await resolveEffectiveProfile(context, provider, ref, basePath, p.id);
+    const files = new Map(effective.files);
+    if (effective.extensions) {
+      const exts = [...effective.extensions.extensions].sort((a, b) => a.id.localeCompare(b.id));
+      files.set('extensions.json', JSON.stringify(exts, null, 2) + '\n');
+    }
+    return files;
+  };
+  const [left, right] = [await snapshot(target), await snapshot(other)];
+  const [leftName, rightName] = [target.meta.displayName || target.id, other.meta.displayName || other.id];
+
+  type Item = vscode.QuickPickItem & { name: string };
+  const items: Item[] = Array.from(new Set([...left.keys(), ...right.keys()]))
+    .sort()
+    .map((name) => {
+      const [l, r] = [left.get(name), right.get(name)];
+      const status = l === undefined ? `only in ${rightName}` : r === undefined ? `only in ${leftName}` : l === r ? 'identical' : 'different';
+      const icon = l === undefined ? CHANGE_ICONS.added : r === undefined ? CHANGE_ICONS.deleted : l === r ? CHANGE_ICONS.unchanged : CHANGE_ICONS.modified;
+      return { label: `${icon} ${name}`, description: status, name };
+    });
+
+  for (;;) {
+    const pick = await vscode.window.showQuickPick(items, { placeHolder: `${leftName} ↔ ${rightName}: select a file to diff`, ignoreFocusOut: true });
+    if (!pick) return;
+    const leftUri = memoryDocs.set(`compare/${target.id}/${pick.name}`, left.get(pick.name) ?? '');
+    const rightUri = memoryDocs.set(`compare/${other.id}/${pick.name}`, right.get(pick.name) ?? '');
+    await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, `${pick.name} (${leftName} ↔ ${rightName})`, {
+      preview: true,
+      preserveFocus: true
+    });
+  }
+}
+
+async function manageProfiles(context: vscode.ExtensionContext) {
+  const provider = await getProvider(context);
+  const ref = await ensureRemoteReady(context, provider);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+
+  const profiles = await listRemoteProfiles(provider, ref, basePath);
+  if (!profiles.length) {
+    vscode.window.showInformationMessage('No remote profiles yet. Upload, or create one with Switch Profile.');
+    return;
+  }
+  const currentId = context.globalState.get<string>(STATE_KEYS.profileId);
+  const names = new Map(profiles.map((p) => [p.id, p.meta.displayName || p.id]));
+
+  const profilePick = await vscode.window.showQuickPick(
+    profiles
+      .sort((a, b) => (a.meta.displayName || a.id).localeCompare(b.meta.displayName || b.id))
+      .map((p) => {
+        const inherits = describeChain(p.meta, names);
+        return {
+          label: p.meta.displayName || p.id,
+          description: p.id === currentId ? 'current' : undefined,
+          detail: `id: ${p.id}${inherits ? ` · inherits: ${inherits}` : ''}`,
+          profile: p
+        };
+      }),
+    { placeHolder: 'Select a profile to manage' }
+  );
+  if (!profilePick) return;
+  const target = profilePick.profile;
+
+  const actionPick = await vscode.window.showQuickPick(
+    [
+      { label: '$(edit) Rename', action: 'rename' as const },
+      { label: '$(copy) Duplicate', description: 'Copy every file into a new profile', action: 'duplicate' as const },
+      { label: '$(diff) Compare with...', action: 'compare' as const },
+      { label: '$(trash) Delete', description: 'Remove the profile directory from the repository', action: 'delete' as const }
+    ],
+    { placeHolder: profilePick.label }
+  );
+  if (!actionPick) return;
+
+  if (actionPick.action === 'rename') await renameProfile(context, provider, ref, basePath, target);
+  else if (actionPick.action === 'duplicate') await duplicateProfile(context, provider, ref, basePath, target);
+  else if (actionPick.action === 'compare') await compareProfiles(context, provider, ref, basePath, target, profiles);
+  else await deleteProfile(context, provider, ref, basePath, target, profiles);
+}
+
+// Per-profile choice of what is synced. Stored in the remote meta.json, so every machine follows it.
+async function selectSyncedArtifacts(context: vscode.ExtensionContext) {
+  const provider = await getProvider(context);
+  const ref = await ensureRemoteReady(context, provider);
+  const basePath = String(getConfig().get('basePath') || 'profiles');
+  const profile = await getOrInitProfile(context);
+  const profileDir = path.posix.join(basePath, profile.id);
+
+  const meta = await readRemoteMeta(provider, ref, profileDir);
+  const current = profileArtifacts(meta);
+  const details: Partial<Record<SyncArtifact, string>> = {
+    tasks: 'User-level tasks',
+    mcp: 'MCP server configuration',
+    prompts: 'Prompt and instruction files',
+    argv: 'Locale and runtime flags; applied after a restart, machine ids stay local'
+  };
+  const picks = await vscode.window.showQuickPick(
+    (Object.keys(ARTIFACT_LABELS) as SyncArtifact[]).map((artifact) => ({
+      label: ARTIFACT_LABELS[artifact],
+      description: details[artifact],
+      picked: current.has(artifact),
+      artifact
+    })),
+    { canPickMany: true, placeHolder: `What to sync for profile ${profile.displayName}`, ignoreFocusOut: true }
+  );
+  if (!picks) return;
+
+  const artifacts = picks.map((p) => p.artifact);
+  const next: ProfileMeta = meta
+    ? { ...meta, artifacts }
+    : { schemaVersion: 1, id: profile.id, displayName: profile.displayName, createdAt: nowIso(), platform: process.platform, vscodeVersion: vscode.version, artifacts };
+  await provider.writeFile(ref, path.posix.join(profileDir, 'meta.json'), JSON.stringify(next, null, 2) + '\n', `Update synced items of ${profile.displayName}`);
+  vscode.window.showInformationMessage(`Profile ${profile.displayName} syncs: ${picks.map((p) => p.label).join(', ') || 'nothing'}`);
+}
+
+type NativeProfile = { location: string; name: string };
+
+// VS Code's own profiles on this machine, as listed in User/globalStorage/storage.json.
+async function listNativeProfiles(userDir: string): Promise<NativeProfile[]> {
+  const storage = safeJsonParse<any>((await readTextIfExists(path.join(userDir, 'globalStorage', 'storage.json'))) ?? '', undefined);
+  const profiles: any[] = Array.isArray(storage?.userDataProfiles) ? storage.userDataProfiles : [];
+  return profiles
+    .filter((p) => typeof p?.location === 'string')
+    .map((p) => ({ location: path.basename(p.location), name: String(p.name || p.location) }));
+}
+
+// Maps the current profile onto a VS Code profile on this machine, so its files are read from and written to User/profiles/<location>.
+async function linkNativeProfile(context: vscode.ExtensionContext) {
+  const profile = await getOrInitProfile(context);
+  const userDir = await getLocalUserDir();
+  const links = context.globalState.get<Record<string, string>>(STATE_KEYS.nativeProfiles) ?? {};
+  const linked = links[profile.id];
+
+  const natives = await listNativeProfiles(userDir);
+  if (!natives.length) {
+    vscode.window.showInformationMessage('No VS Code profiles found besides the default one.');
+    return;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: 'Default', description: linked ? undefined : 'linked', detail: userDir, location: undefined as string | undefined },
+      ...natives.map((p) => ({
+        label: p.name,
+        description: p.location === linked ? 'linked' : undefined,
+        detail: path.join(userDir, 'profiles', p.location),
+        location: p.location as string | undefined
+      }))
+    ],
+    { placeHolder: `VS Code profile to sync with ${profile.displayName} on this machine` }
+  );
+  if (!pick) return;
+
+  const next = { ...links };
+  if (pick.location) next[profile.id] = pick.location;
+  else delete next[profile.id];
+  await context.globalState.update(STATE_KEYS.nativeProfiles, next);
+  vscode.window.showInformationMessage(
+    `Profile ${profile.displayName} now syncs with the VS Code profile "${pick.label}". Extensions follow the VS Code profile open in this window.`
+  );
+}
+
+const BUNDLE_FORMAT = 'odinsam-syncvscodesettings-bundle';
+const BUNDLE_FILE_EXTENSION = 'vssync';
+
+type BundleContent = {
+  meta: ProfileMeta;
+  // Profile files as upload would send them, extensions.json included
+  files: Record<string, string>;
+  // Extension id -> base64 of its .vsix
+  vsix?: Record<string, string>;
+};
+
+// Export/import file. Encrypted bundles carry `payload` (BundleContent as JSON, ENC1) instead of `content`.
+type ProfileBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  content?: BundleContent;
+  encryption?: ProfileEncryption;
+  payload?: string;
+};
+
+// VS Code keeps the packages it downloaded in <user data dir>/CachedExtensionVSIXs as <id>-<version>[-<target platform>].
+// Extensions installed another way (or whose package was cleaned up) have no .vsix to export.
+async function findCachedVsixFiles(exts: ExtensionEntry[]): Promise<Map<string, string>> {
+  const cached = await listDirFiles(path.join(path.dirname(await getLocalUserDir()), 'CachedExtensionVSIXs'));
+  const found = new Map<string, string>();
+  for (const e of exts) {
+    if (!e.version) continue;
+    const prefix = `${e.id}-${e.version}`.toLowerCase();
+    const file = cached.find((f) => {
+      const name = path.basename(f).toLowerCase();
+      return !name.endsWith('.sigzip') && (name === prefix || name.startsWith(`${prefix}-`));
+    });
+    if (file) found.set(e.id, file);
+  }
+  return found;
+}
+
+async function exportProfileToFile(context: vscode.ExtensionContext) {
+  const profile = await getOrInitProfile(context);
+  const picks = await vscode.window.showQuickPick(
+    (Object.keys(ARTIFACT_LABELS) as SyncArtifact[]).map((artifact) => ({
+      label: ARTIFACT_LABELS[artifact],
+      picked: DEFAULT_ARTIFACTS.includes(artifact),
+      artifact
+    })),
+    { canPickMany: true, placeHolder: `What to export from ${profile.displayName}`, ignoreFocusOut: true }
+  );
+  if (!picks?.length) return;
+  const artifacts = new Set(picks.map((p) => p.artifact));
+
+  let withVsix = false;
+  if (artifacts.has('extensions')) {
+    const pick = await vscode.window.showQuickPick(
+      [
+        { label: 'Extension list only', description: 'Installed from the marketplace on import', vsix: false },
+        { label: 'Include .vsix packages', description: 'For offline machines; taken from VS Code’s download cache', vsix: true }
+      ],
+      { placeHolder: 'Extensions in the bundle' }
+    );
+    if (!pick) return;
+    withVsix = pick.vsix;
+  }
+
+  const encrypt = await vscode.window.showQuickPick(
+    [
+      { label: 'No encryption', encrypt: false },
+      { label: 'Encrypt with a passphrase', description: 'AES-256-GCM; the passphrase is not stored', encrypt: true }
+    ],
+    { placeHolder: 'Protect the bundle?' }
+  );
+  if (!encrypt) return;
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), `${profile.displayName}.${BUNDLE_FILE_EXTENSION}`)),
+    filters: { 'Sync VSCode Settings bundle': [BUNDLE_FILE_EXTENSION] }
+  });
+  if (!target) return;
+
+  const files = stripMachineLocal(await readLocalProfileFiles(await getLocalProfilePaths(context), artifacts));
+  const content: BundleContent = {
+    meta: {
+      schemaVersion: 1,
+      id: profile.id,
+      displayName: profile.displayName,
+      createdAt: nowIso(),
+      platform: process.platform,
+      vscodeVersion: vscode.version,
+      artifacts: [...artifacts]
+    },
+    files: Object.fromEntries(files)
   };
-}
 
-async function installExtensions(snapshot: ExtensionsSnapshot): Promise<void> {
-  // Best-effort: install non-builtin extensions by id.
-  for (const ext of snapshot.extensions) {
-    try {
-      await vscode.commands.executeCommand('workbench.extensions.installExtension', ext.id);
-    } catch {
-      // ignore install errors (platform not supported / marketplace unavailable / etc)
+  let missing: string[] = [];
+  if (artifacts.has('extensions')) {
+    const exts = await snapshotExtensions();
+    content.files['extensions.json'] = JSON.stringify(exts, null, 2) + '\n';
+    if (withVsix) {
+      const found = await findCachedVsixFiles(exts.extensions);
+      content.vsix = {};
+      for (const [id, file] of found) content.vsix[id] = (await fs.readFile(file)).toString('base64');
+      missing = exts.extensions.filter((e) => !found.has(e.id)).map((e) => e.id);
     }
   }
-}
 
-async function getOrInitProfile(context: vscode.ExtensionContext): Promise<{ id: string; displayName: string }> {
-  const existingId = context.globalState.get<string>(STATE_KEYS.profileId);
-  const existingName = context.globalState.get<string>(STATE_KEYS.profileDisplayName);
-  if (existingId && existingName) return { id: existingId, displayName: existingName };
+  const bundle: ProfileBundle = { format: BUNDLE_FORMAT, version: 1, exportedAt: nowIso() };
+  if (encrypt.encrypt) {
+    const passphrase = await promptPassphrase(true);
+    if (!passphrase) return;
+    const salt = crypto.randomBytes(16).toString('base64');
+    const key = await deriveKey(passphrase, salt);
+    bundle.encryption = { scheme: 'aes-256-gcm', kdf: 'scrypt', salt, verifier: encryptText(key, ENCRYPTION_VERIFIER) };
+    bundle.payload = encryptText(key, JSON.stringify(content));
+  } else {
+    bundle.content = content;
+  }
+  await fs.writeFile(target.fsPath, JSON.stringify(bundle, null, 2) + '\n', 'utf8');
 
-  const id = crypto.randomUUID();
-  const displayName = 'default';
-  await context.globalState.update(STATE_KEYS.profileId, id);
-  await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
-  return { id, displayName };
+  const vsixCount = Object.keys(content.vsix ?? {}).length;
+  const summary = `Exported ${profile.displayName} to ${target.fsPath} (${files.size} file(s)${withVsix ? `, ${vsixCount} .vsix` : ''}).`;
+  if (!missing.length) {
+    vscode.window.showInformationMessage(summary);
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(`${summary} ${missing.length} extension(s) have no cached .vsix.`, 'Show List');
+  if (choice === 'Show List') {
+    const uri = memoryDocs.set('reports/export-missing-vsix.log', missing.join('\n') + '\n');
+    await vscode.window.showTextDocument(uri, { preview: true });
+  }
 }
 
-async function getProvider(context: vscode.ExtensionContext): Promise<RemoteProvider> {
-  const kind = context.globalState.get<ProviderKind>(STATE_KEYS.provider);
-  const token = await context.secrets.get(SECRET_KEYS.token);
-  if (!kind || !token) throw new Error('Not configured. Run "Sync VSCode Settings: Configure" first.');
-  return kind === 'github' ? new GitHubProvider(token) : new GiteeProvider(token);
-}
+async function readBundle(filePath: string): Promise<BundleContent> {
+  const bundle = safeJsonParse<ProfileBundle | undefined>(await fs.readFile(filePath, 'utf8'), undefined);
+  if (bundle?.format !== BUNDLE_FORMAT) throw new Error(`${path.basename(filePath)} is not a Sync VSCode Settings bundle.`);
+  if (bundle.version !== 1) throw new Error(`Bundle version ${bundle.version} is not supported by this version of the extension.`);
+  if (!bundle.encryption) {
+    if (!bundle.content?.meta || !bundle.content.files) throw new Error(`${path.basename(filePath)} is incomplete.`);
+    return bundle.content;
+  }
 
-async function getRepoRef(context: vscode.ExtensionContext, provider: RemoteProvider): Promise<RepoRef> {
-  const cfg = getConfig();
-  const repoName = String(cfg.get('repoName') || 'vscode-settings-sync');
-  const owner = context.globalState.get<string>(STATE_KEYS.repoOwner) || (await provider.getViewerLogin());
-  const branch = context.globalState.get<string>(STATE_KEYS.branch) || '';
-  await context.globalState.update(STATE_KEYS.repoOwner, owner);
-  await context.globalState.update(STATE_KEYS.repoName, repoName);
-  if (branch) await context.globalState.update(STATE_KEYS.branch, branch);
-  return { owner, repo: repoName, branch: branch || 'main' };
+  const passphrase = await promptPassphrase(false);
+  if (!passphrase) throw new Error('A passphrase is required for encrypted bundles.');
+  const key = await deriveKey(passphrase, bundle.encryption.salt);
+  if (!isProfileKey(bundle.encryption, key)) throw new Error('Wrong passphrase for the bundle.');
+  return JSON.parse(decryptText(key, bundle.payload ?? '')) as BundleContent;
 }
 
-async function ensureRemoteReady(context: vscode.ExtensionContext, provider: RemoteProvider): Promise<RepoRef> {
-  const ref0 = await getRepoRef(context, provider);
-  await provider.ensureRepo(ref0.owner, ref0.repo, true);
+// Applies the bundle like a download of the current profile; base snapshots are left alone, so the next
+// download still merges against what was last synced.
+async function importBundleLocally(context: vscode.ExtensionContext, content: BundleContent) {
+  const profile = await getOrInitProfile(context);
+  const files = new Map(Object.entries(content.files));
+  const extsText = files.get('extensions.json');
+  files.delete('extensions.json');
 
-  // Resolve correct default branch (especially for Gitee: "master" vs "main")
-  const stored = context.globalState.get<string>(STATE_KEYS.branch);
-  const branch = stored && stored.trim() ? stored : await provider.getDefaultBranch(ref0.owner, ref0.repo);
-  await context.globalState.update(STATE_KEYS.branch, branch);
-  return { ...ref0, branch };
-}
+  const vsixDir = path.join(context.globalStorageUri.fsPath, 'import');
+  const vsixFiles = new Map<string, string>();
+  try {
+    for (const [id, data] of Object.entries(content.vsix ?? {})) {
+      await ensureDir(vsixDir);
+      const file = path.join(vsixDir, `${id}.vsix`);
+      await fs.writeFile(file, Buffer.from(data, 'base64'));
+      vsixFiles.set(id.toLowerCase(), file);
+    }
 
-async function listRemoteProfiles(provider: RemoteProvider, ref: RepoRef, basePath: string): Promise<Array<{ id: string; meta: ProfileMeta }>> {
-  const items = await provider.listDir(ref, basePath);
-  const dirs = items.filter((x) => x.type === 'dir').map((x) => x.path);
-  const results: Array<{ id: string; meta: ProfileMeta }> = [];
+    const applied = await applyProfileLocally(context, {
+      profileId: profile.id,
+      files,
+      extensions: extsText ? safeJsonParse<ExtensionsSnapshot | undefined>(extsText, undefined) : undefined,
+      artifacts: profileArtifacts(content.meta),
+      track: false,
+      action: 'Import',
+      backupReason: `Before importing ${content.meta.displayName}`,
+      vsixFiles
+    });
+    if (!applied) return;
 
-  for (const dirFullPath of dirs) {
-    const id = path.posix.basename(dirFullPath);
-    const metaPath = path.posix.join(dirFullPath.replace(/\\/g, '/'), 'meta.json');
-    const metaFile = await provider.readFile(ref, metaPath);
-    if (!metaFile) continue;
-    const meta = safeJsonParse<ProfileMeta>(metaFile.content, undefined as any);
-    if (meta?.schemaVersion === 1 && meta?.id) results.push({ id, meta });
+    vscode.window.showInformationMessage(`Imported ${content.meta.displayName} into ${profile.displayName} on this machine.`);
+    if (applied.argvChanged) vscode.window.showInformationMessage('argv.json was updated. Restart VS Code to apply the new runtime arguments.');
+  } finally {
+    await fs.rm(vsixDir, { recursive: true, force: true });
   }
-  return results;
 }
 
-async function upload(context: vscode.ExtensionContext) {
-  const provider = await getProvider(context);
-  const ref = await ensureRemoteReady(context, provider);
+// Publishes the bundle as a new remote profile. .vsix packages stay out of the repository.
+async function publishBundle(context: vscode.ExtensionContext, content: BundleContent) {
+  const remote = await getProvider(context);
+  const ref = await ensureRemoteReady(context, remote);
   const basePath = String(getConfig().get('basePath') || 'profiles');
 
-  const profile = await getOrInitProfile(context);
-  const localUserDir = await getLocalUserDir();
-
-  const settingsPath = path.join(localUserDir, 'settings.json');
-  const keybindingsPath = path.join(localUserDir, 'keybindings.json');
-  const snippetsDir = path.join(localUserDir, 'snippets');
+  const displayName = (
+    await vscode.window.showInputBox({ prompt: 'Display name of the new remote profile', value: content.meta.displayName, ignoreFocusOut: true })
+  )?.trim();
+  if (!displayName) return;
 
-  const settings = (await readTextIfExists(settingsPath)) ?? '{}\n';
-  const keybindings = (await readTextIfExists(keybindingsPath)) ?? '[]\n';
-  const snippetFiles = await listSnippetFiles(snippetsDir);
-  const exts = await snapshotExtensions();
+  const id = sha256(`${displayName}:${crypto.randomUUID()}`).slice(0, 12);
+  const profileDir = path.posix.join(basePath, id);
+  const { provider, encryption } = await resolveEncryption(context, remote, ref, profileDir, 'upload');
 
-  const profileDir = path.posix.join(basePath, profile.id);
   const meta: ProfileMeta = {
     schemaVersion: 1,
-    id: profile.id,
-    displayName: profile.displayName,
+    id,
+    displayName,
     createdAt: nowIso(),
     lastSyncAt: nowIso(),
-    platform: process.platform,
-    vscodeVersion: vscode.version
+    platform: content.meta.platform,
+    vscodeVersion: content.meta.vscodeVersion,
+    ...(encryption ? { encryption } : {}),
+    ...(content.meta.artifacts ? { artifacts: content.meta.artifacts } : {})
   };
+  const profileFiles = new Map(Object.entries(content.files));
+  const manifestFiles = Object.fromEntries(Object.entries(hashFiles(profileFiles)).sort(([a], [b]) => a.localeCompare(b)));
+  const manifest: ProfileManifest = { schemaVersion: 1, files: manifestFiles };
+  await provider.commitFiles(
+    ref,
+    [
+      { path: path.posix.join(profileDir, 'meta.json'), content: JSON.stringify(meta, null, 2) + '\n' },
+      ...[...profileFiles].map(([name, fileContent]) => ({ path: path.posix.join(profileDir, name), content: fileContent })),
+      { path: path.posix.join(profileDir, MANIFEST_FILE), content: JSON.stringify(manifest, null, 2) + '\n' }
+    ],
+    `Import profile ${displayName}`
+  );
 
-  await provider.writeFile(ref, path.posix.join(profileDir, 'meta.json'), JSON.stringify(meta, null, 2) + '\n', `Update meta for ${profile.displayName}`);
-  await provider.writeFile(ref, path.posix.join(profileDir, 'settings.json'), settings, `Update settings for ${profile.displayName}`);
-  await provider.writeFile(ref, path.posix.join(profileDir, 'keybindings.json'), keybindings, `Update keybindings for ${profile.displayName}`);
-  await provider.writeFile(ref, path.posix.join(profileDir, 'extensions.json'), JSON.stringify(exts, null, 2) + '\n', `Update extensions for ${profile.displayName}`);
+  const pick = await vscode.window.showInformationMessage(
+    `Published ${displayName} to ${provider.kind}:${ref.owner}/${ref.repo}.`,
+    'Switch to It'
+  );
+  if (pick !== 'Switch to It') return;
+  await context.globalState.update(STATE_KEYS.profileId, id);
+  await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+}
 
-  for (const file of snippetFiles) {
-    const content = await fs.readFile(file, 'utf8');
-    const name = path.basename(file);
-    await provider.writeFile(ref, path.posix.join(profileDir, 'snippets', name), content, `Update snippet ${name} for ${profile.displayName}`);
-  }
+async function importProfileFromFile(context: vscode.ExtensionContext) {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { 'Sync VSCode Settings bundle': [BUNDLE_FILE_EXTENSION], 'All files': ['*'] },
+    openLabel: 'Import'
+  });
+  if (!picked?.length) return;
+  const content = await readBundle(picked[0].fsPath);
 
-  vscode.window.showInformationMessage(`Uploaded settings to ${provider.kind}:${ref.owner}/${ref.repo}/${profile.displayName}`);
+  const exported = `${content.meta.platform ?? 'unknown OS'}, VS Code ${content.meta.vscodeVersion ?? '?'}`;
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '$(desktop-download) Apply to this machine', description: 'Merged into the local files like a download', target: 'local' as const },
+      { label: '$(cloud-upload) Publish as a new remote profile', description: 'Other machines can switch to it', target: 'remote' as const }
+    ],
+    { placeHolder: `Import ${content.meta.displayName} (${exported})` }
+  );
+  if (!pick) return;
+
+  if (pick.target === 'local') await importBundleLocally(context, content);
+  else await publishBundle(context, content);
 }
 
-async function download(context: vscode.ExtensionContext) {
-  const provider = await getProvider(context);
-  const ref = await ensureRemoteReady(context, provider);
-  const basePath = String(getConfig().get('basePath') || 'profiles');
+type ExplorerFileStatus = 'in sync' | 'locally modified' | 'remote newer' | 'conflict';
 
-  const profile = await getOrInitProfile(context);
-  const profileDir = path.posix.join(basePath, profile.id);
+type ExplorerNode =
+  | { kind: 'remote'; label: string; detail: string }
+  | { kind: 'profile'; profile: RemoteProfile; current: boolean }
+  | { kind: 'file'; profile: RemoteProfile; name: string; status?: ExplorerFileStatus }
+  | { kind: 'message'; label: string };
+
+const EXPLORER_STATUS_ICONS: Record<ExplorerFileStatus, string> = {
+  'in sync': 'pass',
+  'locally modified': 'diff-modified',
+  'remote newer': 'cloud-download',
+  conflict: 'warning'
+};
+
+// Sync Explorer view: the remote, its profiles and, per profile, the synced files. Only the current profile
+// gets a per-file status, since the local files belong to it.
+class SyncExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+  private readonly emitter = new vscode.EventEmitter<ExplorerNode | undefined>();
+  readonly onDidChangeTreeData = this.emitter.event;
+  private remote: { provider: RemoteProvider; ref: RepoRef; basePath: string } | undefined = undefined;
+  // Set when the repository does not exist (yet); the tree says so instead of listing profiles
+  private missingRepo: string | undefined = undefined;
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  refresh() {
+    this.remote = undefined;
+    this.missingRepo = undefined;
+    this.emitter.fire(undefined);
+  }
+
+  getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    if (node.kind === 'message') return new vscode.TreeItem(node.label);
+    if (node.kind === 'remote') {
+      const item = new vscode.TreeItem(node.label);
+      item.description = node.detail;
+      item.iconPath = new vscode.ThemeIcon('repo');
+      item.contextValue = 'remote';
+      return item;
+    }
+    if (node.kind === 'profile') {
+      const { meta } = node.profile;
+      const item = new vscode.TreeItem(meta.displayName || node.profile.id, vscode.TreeItemCollapsibleState.Collapsed);
+      const synced = meta.lastSyncAt ? new Date(meta.lastSyncAt).toLocaleString() : 'never synced';
+      item.description = node.current ? `current · ${synced}` : synced;
+      item.tooltip = [
+        `id: ${node.profile.id}`,
+        `Last sync: ${synced}`,
+        `Platform: ${meta.platform ?? '?'}`,
+        `VS Code: ${meta.vscodeVersion ?? '?'}`,
+        ...(meta.encryption ? ['Encrypted'] : [])
+      ].join('\n');
+      item.iconPath = new vscode.ThemeIcon(node.current ? 'star-full' : meta.encryption ? 'lock' : 'account');
+      item.contextValue = node.current ? 'profile.current' : 'profile';
+      if (node.current) item.collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+      return item;
+    }
+
+    const item = new vscode.TreeItem(node.name);
+    item.description = node.status;
+    item.iconPath = new vscode.ThemeIcon(node.status ? EXPLORER_STATUS_ICONS[node.status] : 'file');
+    item.contextValue = 'file';
+    item.command = { command: 'syncVsCodeSettings.explorer.diffFile', title: 'Compare with Local', arguments: [node] };
+    return item;
+  }
+
+  async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+    try {
+      if (!node) return await this.rootNodes();
+      if (node.kind === 'profile') return await this.fileNodes(node);
+      return [];
+    } catch (e: any) {
+      return [{ kind: 'message', label: String(e?.message || e) }];
+    }
+  }
+
+  // Read-only, like the status bar poll: browsing must not create the repository.
+  private async connect() {
+    if (!this.remote) {
+      const provider = await getProvider(this.context);
+      const ref = await getRepoRef(this.context, provider);
+      let defaultBranch: string;
+      try {
+        defaultBranch = await provider.getDefaultBranch(ref.owner, ref.repo);
+      } catch (e) {
+        if (!isHttpStatus(e, 404)) throw e;
+        this.missingRepo = `${ref.owner}/${ref.repo}`;
+        return undefined;
+      }
+      const stored = this.context.globalState.get<string>(STATE_KEYS.branch);
+      this.remote = {
+        provider,
+        ref: { ...ref, branch: stored?.trim() ? stored : defaultBranch },
+        basePath: String(getConfig().get('basePath') || 'profiles')
+      };
+    }
+    return this.remote;
+  }
 
-  const settingsFile = await provider.readFile(ref, path.posix.join(profileDir, 'settings.json'));
-  const keybindingsFile = await provider.readFile(ref, path.posix.join(profileDir, 'keybindings.json'));
-  const extsFile = await provider.readFile(ref, path.posix.join(profileDir, 'extensions.json'));
-  const snippetsList = await provider.listDir(ref, path.posix.join(profileDir, 'snippets'));
+  private async rootNodes(): Promise<ExplorerNode[]> {
+    // Nothing configured yet: the view's welcome content offers Configure instead
+    if (!this.context.globalState.get<ProviderKind>(STATE_KEYS.provider)) return [];
+    const remote = await this.connect();
+    if (!remote) return [{ kind: 'message', label: `Repository ${this.missingRepo} not found; the first upload creates it` }];
+    const { provider, ref, basePath } = remote;
+    const currentId = this.context.globalState.get<string>(STATE_KEYS.profileId);
+    const profiles = (await listRemoteProfiles(provider, ref, basePath)).sort((a, b) =>
+      (a.meta.displayName || a.id).localeCompare(b.meta.displayName || b.id)
+    );
+    const location = isLocalProviderKind(provider.kind) ? this.context.globalState.get<string>(STATE_KEYS.localLocation) ?? '' : `${ref.owner}/${ref.repo}`;
+    return [
+      { kind: 'remote', label: provider.kind, detail: `${location} · ${ref.branch}` },
+      ...profiles.map((profile) => ({ kind: 'profile' as const, profile, current: profile.id === currentId }))
+    ];
+  }
+
+  // Opens an encrypted profile with the stored passphrase only; the tree never prompts.
+  private async profileProvider(provider: RemoteProvider, enc: ProfileEncryption | undefined): Promise<RemoteProvider | undefined> {
+    if (!enc) return provider;
+    const stored = await this.context.secrets.get(SECRET_KEYS.passphrase);
+    if (!stored) return undefined;
+    const key = await deriveKey(stored, enc.salt);
+    return isProfileKey(enc, key) ? new EncryptingProvider(provider, key) : undefined;
+  }
 
-  const localUserDir = await getLocalUserDir();
-  await ensureDir(localUserDir);
-  await ensureDir(path.join(localUserDir, 'snippets'));
+  private async fileNodes(node: Extract<ExplorerNode, { kind: 'profile' }>): Promise<ExplorerNode[]> {
+    const connected = await this.connect();
+    if (!connected) return [];
+    const { provider: remote, ref, basePath } = connected;
+    const { profile } = node;
+    const dir = path.posix.join(basePath, profile.id);
+    const provider = await this.profileProvider(remote, profile.meta.encryption);
+    if (!provider) return [{ kind: 'message', label: 'Encrypted; download once on this machine to unlock' }];
 
-  if (settingsFile) await fs.writeFile(path.join(localUserDir, 'settings.json'), settingsFile.content, 'utf8');
-  if (keybindingsFile) await fs.writeFile(path.join(localUserDir, 'keybindings.json'), keybindingsFile.content, 'utf8');
+    const artifacts = profileArtifacts(profile.meta);
+    const manifest = await readRemoteManifest(provider, ref, dir);
+    const remoteHashes: Record<string, string | undefined> = manifest?.files ?? {};
+    const names = new Set(
+      [...(manifest ? Object.keys(manifest.files) : await listRemoteFilesRecursive(provider, ref, dir))].filter((name) => {
+        const artifact = artifactOf(name);
+        return artifact !== undefined && artifacts.has(artifact);
+      })
+    );
+    if (!node.current) return [...names].sort().map((name) => ({ kind: 'file' as const, profile, name }));
+
+    const local = hashFiles(stripMachineLocal(await readLocalProfileFiles(await getLocalProfilePaths(this.context), artifacts)));
+    const synced = await readSyncedState(this.context, profile.id);
+    for (const name of [...Object.keys(local), ...Object.keys(synced)]) {
+      const artifact = artifactOf(name);
+      if (artifact && artifacts.has(artifact)) names.add(name);
+    }
+    const last = getLastSyncAt(this.context, profile.id);
+    const remoteNewer = Boolean(profile.meta.lastSyncAt && (!last || Date.parse(profile.meta.lastSyncAt) > Date.parse(last)));
 
-  for (const item of snippetsList.filter((x) => x.type === 'file')) {
-    const rf = await provider.readFile(ref, item.path);
-    if (!rf) continue;
-    const filename = path.basename(item.path);
-    await fs.writeFile(path.join(localUserDir, 'snippets', filename), rf.content, 'utf8');
+    const statusOf = (name: string): ExplorerFileStatus => {
+      if (local[name] !== undefined && local[name] === remoteHashes[name]) return 'in sync';
+      const localChanged = local[name] !== synced[name];
+      // Without a manifest the remote side of a file is unknown, so only the profile's lastSyncAt counts.
+      const remoteChanged = remoteNewer && (!manifest || remoteHashes[name] !== synced[name]);
+      if (localChanged && remoteChanged) return 'conflict';
+      if (remoteChanged) return 'remote newer';
+      return localChanged ? 'locally modified' : 'in sync';
+    };
+    return [...names].sort().map((name) => ({ kind: 'file' as const, profile, name, status: statusOf(name) }));
   }
 
-  if (extsFile) {
-    const snap = safeJsonParse<ExtensionsSnapshot>(extsFile.content, { schemaVersion: 1, generatedAt: nowIso(), extensions: [] });
-    await installExtensions(snap);
+  // Remote copy of a profile's own file (parents and overlays not applied) against the local file.
+  async diffFile(node: ExplorerNode) {
+    if (node.kind !== 'file') return;
+    const connected = await this.connect();
+    if (!connected) return;
+    const { provider: remote, ref, basePath } = connected;
+    const dir = path.posix.join(basePath, node.profile.id);
+    const { provider } = await resolveEncryption(this.context, remote, ref, dir, 'download');
+    const remoteFile = await provider.readFile(ref, path.posix.join(dir, node.name));
+    const left = memoryDocs.set(`explorer/${node.profile.id}/${node.name}`, remoteFile?.content ?? '');
+
+    const localPath = localFilePath(await getLocalProfilePaths(this.context), node.name);
+    const right = (await readTextIfExists(localPath)) !== undefined ? vscode.Uri.file(localPath) : memoryDocs.set(`local/${node.name}`, '');
+    const title = `${node.name} (${node.profile.meta.displayName || node.profile.id} ↔ Local)`;
+    await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true, preserveFocus: true });
   }
 
-  vscode.window.showInformationMessage(`Downloaded settings from ${provider.kind}:${ref.owner}/${ref.repo}/${profile.displayName}`);
+  // Run through the status bar queue (see activate), so it never changes the profile under a running sync.
+  async switchTo(node: ExplorerNode) {
+    if (node.kind !== 'profile' || node.current) return;
+    await this.context.globalState.update(STATE_KEYS.profileId, node.profile.id);
+    await this.context.globalState.update(STATE_KEYS.profileDisplayName, node.profile.meta.displayName || node.profile.id);
+    vscode.window.showInformationMessage(`Switched to profile: ${node.profile.meta.displayName || node.profile.id}`);
+  }
 }
 
-async function configure(context: vscode.ExtensionContext) {
-  const providerPick = await vscode.window.showQuickPick<{ label: string; providerKind: ProviderKind }>(
-    [
-      { label: 'GitHub', providerKind: 'github' },
-      { label: 'Gitee', providerKind: 'gitee' }
-    ],
-    { placeHolder: 'Choose provider (GitHub/Gitee)' }
-  );
-  if (!providerPick) return;
+// Opt-in background sync: debounced upload after local changes, and a pull check on startup.
+class AutoSyncController implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined = undefined;
+  private failures = 0;
+  // Our own download rewrites the watched files; ignore events until this time.
+  private quietUntil = 0;
+  private running = false;
+  // A local change arrived while another operation was running; re-checked once it finishes.
+  private pending = false;
+  // Remote lastSyncAt an auto upload was last held back for; the user is told once per remote update.
+  private heldBackFor: string | undefined = undefined;
 
-  const token = await vscode.window.showInputBox({
-    prompt: `${providerPick.label} Personal Access Token`,
-    password: true,
-    ignoreFocusOut: true
-  });
-  if (!token) return;
+  constructor(private readonly context: vscode.ExtensionContext, private readonly statusBar: StatusBarController) {}
 
-  await context.globalState.update(STATE_KEYS.provider, providerPick.providerKind);
-  await context.secrets.store(SECRET_KEYS.token, token);
+  private get delayMs() {
+    return Math.max(1, Number(getConfig().get('autoSync.delaySeconds') ?? 30)) * 1000;
+  }
 
-  const provider: RemoteProvider = providerPick.providerKind === 'github' ? new GitHubProvider(token) : new GiteeProvider(token);
-  const login = await provider.getViewerLogin();
-  await context.globalState.update(STATE_KEYS.repoOwner, login);
+  async start() {
+    this.stop();
+    if (!getConfig().get<boolean>('autoSync.enabled') || !this.context.globalState.get(STATE_KEYS.provider)) return;
 
-  // Ensure profile exists locally, but do NOT create remote files until first upload/download
-  await getOrInitProfile(context);
-  await ensureRemoteReady(context, provider);
+    let userDir: vscode.Uri;
+    try {
+      userDir = vscode.Uri.file(await getLocalUserDir());
+    } catch (e: any) {
+      // e.g. a remote extension host without syncVsCodeSettings.localUserDataDir
+      log.error(`Auto sync not started: ${e?.message || e}`);
+      vscode.window.showWarningMessage(`Auto sync is not running: ${e?.message || e}`);
+      return;
+    }
+    // profiles/** covers VS Code profiles linked with "Link VS Code Profile"
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(userDir, '{settings.json,keybindings.json,tasks.json,mcp.json,snippets/**,prompts/**,profiles/**}')
+    );
+    // Only the files of the profile being synced count: the default profile's or the linked VS Code profile's
+    const onFileChange = async (uri: vscode.Uri) => {
+      const { dir } = await getLocalProfilePaths(this.context);
+      const rel = path.relative(dir, uri.fsPath);
+      // Unlinked, `dir` is the User dir itself, whose profiles/ holds the other VS Code profiles
+      if (rel.startsWith('..') || path.isAbsolute(rel) || rel.split(path.sep)[0] === 'profiles') return;
+      this.onLocalChange();
+    };
+    const onChange = (uri: vscode.Uri) => void onFileChange(uri).catch((e) => log.warn(`Auto sync: ${e?.message || e}`));
+    this.disposables.push(
+      watcher,
+      watcher.onDidChange(onChange),
+      watcher.onDidCreate(onChange),
+      watcher.onDidDelete(onChange),
+      vscode.extensions.onDidChange(() => {
+        if (Date.now() >= ownExtensionChangesUntil) this.onLocalChange();
+      }),
+      this.statusBar.onDidFinish(() => {
+        if (!this.pending || this.statusBar.isBusy) return;
+        this.pending = false;
+        this.schedule(this.delayMs);
+      })
+    );
+
+    await this.pullOnStartup();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending = false;
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+
+  dispose() {
+    this.stop();
+  }
+
+  private onLocalChange() {
+    if (this.running || Date.now() < this.quietUntil) return;
+    if (this.statusBar.isBusy) this.pending = true;
+    else this.schedule(this.delayMs);
+  }
+
+  private schedule(ms: number) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.runUpload(), ms);
+  }
+
+  private async runUpload() {
+    this.timer = undefined;
+    try {
+      await this.runQuietly('Auto uploading...', async () => {
+        // Uploading over a newer remote profile would overwrite what another machine synced.
+        const remoteAt = await this.newerRemoteSyncAt();
+        if (remoteAt) {
+          this.holdBack(remoteAt);
+          return;
+        }
+        await upload(this.context, { auto: true });
+      });
+      this.failures = 0;
+    } catch (e: any) {
+      log.error(`Auto upload failed: ${e?.message || e}`);
+      // Back off exponentially (capped at 30 min); only bother the user once per failure streak.
+      this.failures += 1;
+      const backoff = Math.min(this.delayMs * 2 ** this.failures, 30 * 60 * 1000);
+      if (this.failures === 1) {
+        vscode.window.showWarningMessage(`Auto sync upload failed: ${e?.message || e}. Retrying in ${Math.round(backoff / 1000)}s.`);
+      }
+      this.schedule(backoff);
+    }
+  }
+
+  private async runQuietly(label: string, fn: () => Promise<void>) {
+    this.running = true;
+    try {
+      await this.statusBar.run(label, fn);
+    } finally {
+      this.running = false;
+      this.quietUntil = Date.now() + 3000;
+    }
+  }
 
-  vscode.window.showInformationMessage(`Configured ${providerPick.label} as ${login}. Repo will be auto-created if missing.`);
+  // The remote meta.json lastSyncAt when it is newer than what this machine last synced.
+  private async newerRemoteSyncAt(): Promise<string | undefined> {
+    const provider = await getProvider(this.context);
+    const ref = await ensureRemoteReady(this.context, provider);
+    const basePath = String(getConfig().get('basePath') || 'profiles');
+    const profile = await getOrInitProfile(this.context);
+    const meta = await readRemoteMeta(provider, ref, path.posix.join(basePath, profile.id));
+    const last = getLastSyncAt(this.context, profile.id);
+    if (!meta?.lastSyncAt || (last && Date.parse(meta.lastSyncAt) <= Date.parse(last))) return undefined;
+    return meta.lastSyncAt;
+  }
+
+  // Not awaited: the notification must not hold the status bar queue.
+  private holdBack(remoteAt: string) {
+    log.warn(`Auto upload skipped: the remote profile was updated at ${remoteAt}, after this machine last synced`);
+    vscode.window.setStatusBarMessage('$(warning) Auto upload skipped: remote profile is newer', 10000);
+    if (this.heldBackFor === remoteAt) return;
+    this.heldBackFor = remoteAt;
+    void vscode.window
+      .showWarningMessage(`Auto upload skipped: the profile was updated remotely at ${remoteAt}. Download it first; auto upload resumes with your next change.`, 'Download')
+      .then((choice) => {
+        if (choice === 'Download') void vscode.commands.executeCommand('syncVsCodeSettings.download');
+      });
+  }
+
+  private async pullOnStartup() {
+    const mode = String(getConfig().get('autoSync.pullOnStartup') || 'prompt');
+    if (mode === 'off') return;
+    try {
+      const remoteAt = await this.newerRemoteSyncAt();
+      if (!remoteAt) return;
+
+      if (mode === 'prompt') {
+        const profile = await getOrInitProfile(this.context);
+        const choice = await vscode.window.showInformationMessage(
+          `Profile "${profile.displayName}" was updated remotely at ${remoteAt}. Download it now?`,
+          'Download',
+          'Later'
+        );
+        if (choice !== 'Download') return;
+      }
+      await this.runQuietly('Auto downloading...', () => download(this.context, { auto: true }));
+    } catch (e: any) {
+      log.warn(`Auto sync could not check the remote profile: ${e?.message || e}`);
+      vscode.window.setStatusBarMessage(`$(warning) Auto sync: could not check remote profile (${e?.message || e})`, 10000);
+    }
+  }
 }
 
-async function switchProfile(context: vscode.ExtensionContext) {
-  const provider = await getProvider(context);
-  const ref = await ensureRemoteReady(context, provider);
-  const basePath = String(getConfig().get('basePath') || 'profiles');
+// Polls the current profile's meta.json and compares its lastSyncAt with the one recorded at this machine's
+// last sync; local files are compared with the synced state. The result is shown on the status bar.
+class RemoteChangeWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined = undefined;
+  // Polls don't overlap: a request made while one runs is coalesced into a single follow-up poll.
+  private polling: Promise<void> | undefined = undefined;
+  private pollAgain = false;
+  // Outcome of the last poll; local changes are re-evaluated on their own, without a request
+  private remote: { updatedAt?: string; newer: boolean; error?: string; artifacts: Set<SyncArtifact> } = {
+    newer: false,
+    artifacts: profileArtifacts(undefined)
+  };
 
-  const remoteProfiles = await listRemoteProfiles(provider, ref, basePath);
-  const currentId = context.globalState.get<string>(STATE_KEYS.profileId);
+  constructor(private readonly context: vscode.ExtensionContext, private readonly statusBar: StatusBarController) {}
 
-  const picks: Array<vscode.QuickPickItem & { id?: string; action?: 'create' }> = [
-    { label: '$(add) Create new profile', description: 'Create a new remote profile directory', action: 'create' }
-  ];
+  private get intervalMs() {
+    return Math.max(0, Number(getConfig().get('remoteCheck.intervalMinutes') ?? 15)) * 60 * 1000;
+  }
 
-  for (const p of remoteProfiles.sort((a, b) => (a.meta.displayName || a.id).localeCompare(b.meta.displayName || b.id))) {
-    picks.push({
-      label: p.meta.displayName || p.id,
-      description: p.id === currentId ? 'current' : undefined,
-      detail: `lastSyncAt: ${p.meta.lastSyncAt || 'never'}`,
-      id: p.id
-    });
+  start() {
+    this.stop();
+    this.disposables.push(
+      this.statusBar.onDidFinish(() => void this.poll()),
+      vscode.workspace.onDidSaveTextDocument((doc) => {
+        const name = path.basename(doc.fileName);
+        if (artifactOf(name) || artifactOf(`${path.basename(path.dirname(doc.fileName))}/${name}`)) void this.render();
+      })
+    );
+    void this.poll();
   }
 
-  const pick = await vscode.window.showQuickPick(picks, { placeHolder: 'Select a profile' });
-  if (!pick) return;
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
 
-  if (pick.action === 'create') {
-    const displayName = await vscode.window.showInputBox({ prompt: 'Profile display name (e.g. vue / csharp)', ignoreFocusOut: true });
-    if (!displayName) return;
+  dispose() {
+    this.stop();
+  }
 
-    // create deterministic-ish id: sha(displayName + random) shortened
-    const id = sha256(`${displayName}:${crypto.randomUUID()}`).slice(0, 12);
-    const meta: ProfileMeta = {
-      schemaVersion: 1,
-      id,
-      displayName,
-      createdAt: nowIso(),
-      platform: process.platform,
-      vscodeVersion: vscode.version
-    };
+  async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollAgain = true;
+      return this.polling;
+    }
+    this.polling = this.pollOnce();
+    try {
+      await this.polling;
+    } finally {
+      this.polling = undefined;
+    }
+    if (this.pollAgain) {
+      this.pollAgain = false;
+      await this.poll();
+    }
+  }
 
-    const profileDir = path.posix.join(basePath, id);
-    await provider.writeFile(ref, path.posix.join(profileDir, 'meta.json'), JSON.stringify(meta, null, 2) + '\n', `Create profile ${displayName}`);
+  private async pollOnce() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    if (!this.context.globalState.get(STATE_KEYS.provider)) {
+      this.statusBar.setState('unknown');
+      return;
+    }
 
-    await context.globalState.update(STATE_KEYS.profileId, id);
-    await context.globalState.update(STATE_KEYS.profileDisplayName, displayName);
+    let next = this.intervalMs;
+    if (next > 0) {
+      try {
+        const provider = await getProvider(this.context);
+        const ref = await getRepoRef(this.context, provider);
+        const basePath = String(getConfig().get('basePath') || 'profiles');
+        const profile = await getOrInitProfile(this.context);
+        const meta = await readRemoteMeta(provider, ref, path.posix.join(basePath, profile.id));
+        const last = getLastSyncAt(this.context, profile.id);
+        const newer = Boolean(meta?.lastSyncAt && (!last || Date.parse(meta.lastSyncAt) > Date.parse(last)));
+        this.remote = { updatedAt: meta?.lastSyncAt, newer, artifacts: profileArtifacts(meta) };
+      } catch (e: any) {
+        // Rate limited: don't ask again before the quota resets
+        if (e instanceof HttpError && e.isRateLimited) {
+          const resetAt = e.rateLimit.resetAt ?? (e.rateLimit.retryAfterMs !== undefined ? Date.now() + e.rateLimit.retryAfterMs : undefined);
+          if (resetAt) next = Math.max(next, resetAt - Date.now());
+        }
+        this.remote = { ...this.remote, error: String(e?.message || e) };
+      }
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => void this.poll(), next);
+    }
+    await this.render();
+  }
 
-    vscode.window.showInformationMessage(`Switched to profile: ${displayName}`);
-    return;
+  private async hasLocalChanges(): Promise<boolean> {
+    const profileId = this.context.globalState.get<string>(STATE_KEYS.profileId);
+    if (!profileId) return false;
+    const local = hashFiles(stripMachineLocal(await readLocalProfileFiles(await getLocalProfilePaths(this.context), this.remote.artifacts)));
+    const synced = await readSyncedState(this.context, profileId);
+    const names = new Set([...Object.keys(local), ...Object.keys(synced)]);
+    return [...names].some((name) => {
+      const artifact = artifactOf(name);
+      return artifact !== undefined && this.remote.artifacts.has(artifact) && local[name] !== synced[name];
+    });
   }
 
-  if (pick.id) {
-    const matched = remoteProfiles.find((p) => p.id === pick.id);
-    await context.globalState.update(STATE_KEYS.profileId, pick.id);
-    await context.globalState.update(STATE_KEYS.profileDisplayName, matched?.meta.displayName || pick.label);
-    vscode.window.showInformationMessage(`Switched to profile: ${matched?.meta.displayName || pick.label}`);
+  private async render() {
+    if (!this.context.globalState.get(STATE_KEYS.provider)) return;
+    const last = getLastSyncAt(this.context, this.context.globalState.get<string>(STATE_KEYS.profileId));
+    const lastLine = `Last sync: ${last ? new Date(last).toLocaleString() : 'never'}`;
+    if (this.remote.error) {
+      this.statusBar.setState('error', `${this.remote.error}\n${lastLine}`);
+      return;
+    }
+    if (this.remote.newer) {
+      this.statusBar.setState('remote-newer', `Updated remotely at ${new Date(this.remote.updatedAt!).toLocaleString()}\n${lastLine}`);
+      return;
+    }
+    try {
+      this.statusBar.setState((await this.hasLocalChanges()) ? 'local-changes' : 'in-sync', lastLine);
+    } catch (e: any) {
+      this.statusBar.setState('error', String(e?.message || e));
+    }
   }
 }
 
 export function activate(context: vscode.ExtensionContext) {
+  initHost(context);
   const statusBarEnabled = Boolean(getConfig().get('statusBar.enabled'));
-  let statusBar: StatusBarController | undefined = undefined;
-  if (statusBarEnabled) {
-    const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 1000);
-    item.text = '$(sync)';
-    item.tooltip = '同步vscode配置';
-    item.command = 'syncVsCodeSettings.statusBarMenu';
-    item.show();
-    statusBar = new StatusBarController(item);
-    statusBar.setIdle();
-    context.subscriptions.push(item);
-  }
+  // The controller also serializes sync operations, so it exists even when the button is hidden.
+  const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 1000);
+  item.text = '$(sync)';
+  item.tooltip = '同步vscode配置';
+  item.command = 'syncVsCodeSettings.statusBarMenu';
+  if (statusBarEnabled) item.show();
+  const statusBar = new StatusBarController(item);
+  statusBar.setIdle();
+  context.subscriptions.push(item);
+
+  const explorer = new SyncExplorerProvider(context);
+  context.subscriptions.push(
+    log,
+    vscode.window.registerTreeDataProvider('syncVsCodeSettings.explorer', explorer),
+    vscode.window.registerUriHandler(oauthCallbacks)
+  );
 
   const wrap =
-    (label: string, fn: () => Promise<void>) =>
+    (label: string, fn: () => Promise<void>, refreshExplorer = true) =>
     async () => {
-      if (statusBar) return await statusBar.run(label, fn);
-      return await fn();
+      try {
+        await statusBar.run(label, fn);
+        if (refreshExplorer) explorer.refresh();
+      } catch (e: any) {
+        log.error(`${label} failed: ${e?.message || e}`);
+        // Remote problems get a way out instead of the generic "command failed" notification
+        if (!(e instanceof HttpError) || e.isRateLimited) throw e;
+        const tokenProblem = e.status === 401 || e.status === 403;
+        const pick = await vscode.window.showErrorMessage(e.message, ...(tokenProblem ? ['Configure'] : []), 'Run Diagnostics');
+        if (pick === 'Configure') await vscode.commands.executeCommand('syncVsCodeSettings.configure');
+        if (pick === 'Run Diagnostics') await vscode.commands.executeCommand('syncVsCodeSettings.runDiagnostics');
+      }
     };
 
+  const autoSync = new AutoSyncController(context, statusBar);
+  const remoteWatcher = new RemoteChangeWatcher(context, statusBar);
+  context.subscriptions.push(
+    autoSync,
+    remoteWatcher,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('syncVsCodeSettings.autoSync') || e.affectsConfiguration('syncVsCodeSettings.localUserDataDir')) {
+        void autoSync.start();
+      }
+      if (e.affectsConfiguration('syncVsCodeSettings')) {
+        explorer.refresh();
+        void remoteWatcher.poll();
+      }
+    }),
+    vscode.authentication.onDidChangeSessions((e) => {
+      // Signing out of GitHub in VS Code ends a 'vscode' sign-in
+      if (e.provider.id !== 'github' || context.globalState.get<AuthMode>(STATE_KEYS.auth) !== 'vscode') return;
+      explorer.refresh();
+      void remoteWatcher.poll();
+    })
+  );
+  void autoSync.start();
+  remoteWatcher.start();
+
   context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(MEMORY_SCHEME, memoryDocs),
     vscode.commands.registerCommand('syncVsCodeSettings.statusBarMenu', () => openStatusBarMenu(context)),
-    vscode.commands.registerCommand('syncVsCodeSettings.configure', wrap('Configuring...', () => configure(context))),
+    vscode.commands.registerCommand(
+      'syncVsCodeSettings.configure',
+      wrap('Configuring...', async () => {
+        await configure(context);
+        void autoSync.start();
+      })
+    ),
     vscode.commands.registerCommand('syncVsCodeSettings.switchProfile', wrap('Switching profile...', () => switchProfile(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.runDiagnostics', wrap('Running diagnostics...', () => runDiagnostics(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.signOut', wrap('Signing out...', () => signOut(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.manageRemotes', wrap('Managing remote targets...', () => manageRemoteTargets(context))),
     vscode.commands.registerCommand('syncVsCodeSettings.upload', wrap('Uploading...', () => upload(context))),
-    vscode.commands.registerCommand('syncVsCodeSettings.download', wrap('Downloading...', () => download(context)))
+    vscode.commands.registerCommand('syncVsCodeSettings.download', wrap('Downloading...', () => download(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.previewChanges', wrap('Previewing changes...', () => previewChanges(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.showProfileHistory', wrap('Loading history...', () => showProfileHistory(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.showSyncHistory', wrap('Loading sync history...', () => showSyncHistory(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.restoreLocalBackup', wrap('Restoring backup...', () => restoreLocalBackup(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.manageProfiles', wrap('Managing profiles...', () => manageProfiles(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.selectSyncedItems', wrap('Updating synced items...', () => selectSyncedArtifacts(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.linkVsCodeProfile', wrap('Linking profile...', () => linkNativeProfile(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.exportProfile', wrap('Exporting profile...', () => exportProfileToFile(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.importProfile', wrap('Importing profile...', () => importProfileFromFile(context))),
+    vscode.commands.registerCommand('syncVsCodeSettings.explorer.refresh', () => explorer.refresh()),
+    vscode.commands.registerCommand('syncVsCodeSettings.explorer.diffFile', (node: ExplorerNode) => wrap('Comparing...', () => explorer.diffFile(node), false)()),
+    vscode.commands.registerCommand('syncVsCodeSettings.explorer.switchToProfile', (node: ExplorerNode) =>
+      wrap('Switching profile...', () => explorer.switchTo(node))()
+    )
   );
 }
 
@@ -0,0 +1,73 @@
+import { config, extensions } from './vscode';
+import { beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { planExtensionSync } from '../extension';
+
+type Installed = { id: string; version: string; isBuiltin?: boolean };
+
+function install(...list: Installed[]) {
+  extensions.splice(0, extensions.length, ...list.map((x) => ({ id: x.id, packageJSON: { version: x.version, isBuiltin: x.isBuiltin } })));
+}
+
+function snapshot(...list: Array<{ id: string; version?: string; enabled?: boolean; pinnedVersion?: string; isBuiltin?: boolean }>) {
+  return { schemaVersion: 1 as const, generatedAt: '2024-01-01T00:00:00.000Z', extensions: list };
+}
+
+async function plan(remote: ReturnType<typeof snapshot>, synced: string[] = []) {
+  const items = await planExtensionSync(remote, new Set(synced));
+  return Object.fromEntries(items.map((x) => [x.id, x.action]));
+}
+
+beforeEach(() => {
+  config.clear();
+  install();
+});
+
+test('installs what is missing and skips what is already there', async () => {
+  install({ id: 'a.one', version: '1.0.0' });
+  assert.deepEqual(await plan(snapshot({ id: 'a.one', version: '1.0.0' }, { id: 'b.two', version: '2.0.0' })), {
+    'a.one': 'skip',
+    'b.two': 'install'
+  });
+});
+
+test('only uninstalls extensions removed remotely since the last sync', async () => {
+  install({ id: 'a.keep', version: '1.0.0' }, { id: 'b.removed', version: '1.0.0' }, { id: 'c.local', version: '1.0.0' });
+  const items = await planExtensionSync(snapshot({ id: 'a.keep' }), new Set(['a.keep', 'b.removed']));
+  assert.deepEqual(
+    items.map((x) => [x.id, x.action, x.reason]),
+    [
+      ['a.keep', 'skip', 'up to date'],
+      ['b.removed', 'uninstall', 'removed remotely'],
+      ['c.local', 'skip', 'only installed here']
+    ]
+  );
+});
+
+test('an empty remote list never uninstalls anything', async () => {
+  install({ id: 'a.one', version: '1.0.0' });
+  assert.deepEqual(await planExtensionSync(snapshot(), new Set(['a.one'])), []);
+});
+
+test('matches ids case-insensitively', async () => {
+  install({ id: 'Publisher.Name', version: '1.0.0' });
+  assert.deepEqual(await plan(snapshot({ id: 'publisher.name' }), ['publisher.name']), { 'publisher.name': 'skip' });
+});
+
+test('moves to a pinned version', async () => {
+  install({ id: 'a.one', version: '1.0.0' });
+  const [item] = await planExtensionSync(snapshot({ id: 'a.one', pinnedVersion: '0.9.0' }), new Set());
+  assert.deepEqual([item.action, item.version], ['update', '0.9.0']);
+});
+
+test('points out a different enabled state', async () => {
+  install({ id: 'a.one', version: '1.0.0' });
+  const [item] = await planExtensionSync(snapshot({ id: 'a.one', enabled: false }), new Set());
+  assert.deepEqual([item.action, item.enablement], ['skip', 'disable']);
+});
+
+test('leaves out built-in and ignored extensions', async () => {
+  config.set('extensions.ignored', ['ignored.*']);
+  install({ id: 'vscode.git', version: '1.0.0', isBuiltin: true }, { id: 'ignored.local', version: '1.0.0' });
+  assert.deepEqual(await plan(snapshot({ id: 'ignored.remote' }, { id: 'a.one' }), ['ignored.local']), { 'a.one': 'install' });
+});
@@ -0,0 +1,98 @@
+import './vscode';
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FolderProvider } from '../extension';
+
+const ref = { owner: '', repo: '', branch: 'main' };
+let root: string;
+let provider: FolderProvider;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'syncvscodesettings-folder-'));
+  provider = new FolderProvider(root);
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function listFiles(dir = root): Promise<string[]> {
+  const out: string[] = [];
+  for (const e of await fs.readdir(dir, { withFileTypes: true })) {
+    const p = path.join(dir, e.name);
+    if (e.isDirectory()) out.push(...(await listFiles(p)));
+    else out.push(path.relative(root, p).split(path.sep).join('/'));
+  }
+  return out.sort();
+}
+
+test('commitFiles writes new files and overwrites existing ones', async () => {
+  await provider.commitFiles(ref, [{ path: 'profiles/default/settings.json', content: '{}' }], 'first');
+  await provider.commitFiles(
+    ref,
+    [
+      { path: 'profiles/default/settings.json', content: '{ "a": 1 }' },
+      { path: 'profiles/default/snippets/js.json', content: '{}' }
+    ],
+    'second'
+  );
+  assert.deepEqual(await listFiles(), ['profiles/default/settings.json', 'profiles/default/snippets/js.json']);
+  assert.deepEqual(await provider.readFile(ref, 'profiles/default/settings.json'), { content: '{ "a": 1 }' });
+});
+
+test('commitFiles leaves every file untouched when one write fails', async () => {
+  await provider.commitFiles(
+    ref,
+    [
+      { path: 'p/settings.json', content: 'old settings' },
+      { path: 'p/blocker', content: 'a file, not a folder' }
+    ],
+    'first'
+  );
+  await assert.rejects(
+    provider.commitFiles(
+      ref,
+      [
+        { path: 'p/settings.json', content: 'new settings' },
+        // Can't be created: its parent is a file
+        { path: 'p/blocker/keybindings.json', content: '[]' }
+      ],
+      'second'
+    )
+  );
+  assert.deepEqual(await listFiles(), ['p/blocker', 'p/settings.json']);
+  assert.deepEqual(await provider.readFile(ref, 'p/settings.json'), { content: 'old settings' });
+});
+
+test('commitFiles deletes files and drops the folders they leave empty', async () => {
+  await provider.commitFiles(
+    ref,
+    [
+      { path: 'profiles/work/settings.json', content: '{}' },
+      { path: 'profiles/work/snippets/js.json', content: '{}' },
+      { path: 'profiles/default/settings.json', content: '{}' }
+    ],
+    'first'
+  );
+  await provider.commitFiles(
+    ref,
+    [
+      { path: 'profiles/work/settings.json', delete: true },
+      { path: 'profiles/work/snippets/js.json', delete: true },
+      { path: 'profiles/missing.json', delete: true }
+    ],
+    'delete work'
+  );
+  assert.deepEqual(await listFiles(), ['profiles/default/settings.json']);
+  assert.deepEqual(await provider.listDir(ref, 'profiles'), [{ path: 'profiles/default', type: 'dir' }]);
+  assert.equal(await provider.readFile(ref, 'profiles/work/settings.json'), undefined);
+});
+
+test('commitFiles never removes the storage folder itself', async () => {
+  await provider.commitFiles(ref, [{ path: 'only.json', content: '{}' }], 'first');
+  await provider.commitFiles(ref, [{ path: 'only.json', delete: true }], 'delete');
+  assert.deepEqual(await fs.readdir(root), []);
+});
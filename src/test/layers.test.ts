@@ -0,0 +1,88 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeProfileLayers, stripInherited } from '../extension';
+
+type Ext = { id: string; enabled?: boolean; pinnedVersion?: string };
+
+function layer(id: string, files: Record<string, string>, exts?: Ext[]) {
+  const extensions = exts && { schemaVersion: 1 as const, generatedAt: `${id}-time`, extensions: exts };
+  return { id, files: new Map(Object.entries(files)), extensions };
+}
+
+test('a profile without parents is used as is', () => {
+  const own = layer('own', { 'settings.json': '{ "a": 1 }' });
+  const effective = mergeProfileLayers([own]);
+  assert.equal(effective.files, own.files);
+});
+
+test('settings merge down the chain, nearer layers win and objects merge by key', () => {
+  const base = layer('base', { 'settings.json': '{ "a": 1, "b": 1, "[python]": { "x": 1, "y": 1 } }' });
+  const team = layer('team', { 'settings.json': '{ "b": 2 }' });
+  const own = layer('own', { 'settings.json': '{ "c": 3, "[python]": { "y": 2 } }' });
+  const settings = JSON.parse(mergeProfileLayers([base, team, own]).files.get('settings.json')!);
+  assert.deepEqual(settings, { a: 1, b: 2, c: 3, '[python]': { x: 1, y: 2 } });
+});
+
+test('keybindings from parents come first and same-key entries further down win', () => {
+  const shared = { key: 'ctrl+s', command: 'save' };
+  const parentRun = { key: 'ctrl+r', command: 'run', args: 'parent' };
+  const ownRun = { key: 'ctrl+r', command: 'run', args: 'own' };
+  const parent = layer('parent', { 'keybindings.json': JSON.stringify([shared, parentRun]) });
+  const own = layer('own', { 'keybindings.json': JSON.stringify([ownRun]) });
+  const keybindings = JSON.parse(mergeProfileLayers([parent, own]).files.get('keybindings.json')!);
+  assert.deepEqual(keybindings, [shared, ownRun]);
+});
+
+test('other files and extensions are a union with nearer layers overriding', () => {
+  const parent = layer('parent', { 'snippets/js.json': 'parent js', 'snippets/go.json': 'go' }, [{ id: 'a.one' }, { id: 'b.two' }]);
+  const own = layer('own', { 'snippets/js.json': 'own js' }, [{ id: 'A.One', enabled: false }]);
+  const effective = mergeProfileLayers([parent, own]);
+  assert.deepEqual(Object.fromEntries(effective.files), { 'snippets/js.json': 'own js', 'snippets/go.json': 'go' });
+  assert.deepEqual(effective.extensions?.extensions, [{ id: 'A.One', enabled: false }, { id: 'b.two' }]);
+  assert.equal(effective.extensions?.generatedAt, 'own-time');
+});
+
+test('stripInherited keeps only what differs from the parents', () => {
+  const parents = mergeProfileLayers([
+    layer('parent', {}),
+    layer(
+      'team',
+      {
+        'settings.json': '{ "a": 1, "b": 1 }',
+        'keybindings.json': JSON.stringify([{ key: 'ctrl+s', command: 'save' }]),
+        'snippets/js.json': 'same',
+        'snippets/go.json': 'parent go'
+      },
+      [{ id: 'a.one' }, { id: 'b.two', pinnedVersion: '1.0.0' }]
+    )
+  ]);
+  const files = new Map(
+    Object.entries({
+      'settings.json': '{ "a": 1, "b": 2, "c": 3 }',
+      'keybindings.json': JSON.stringify([{ key: 'ctrl+s', command: 'save' }, { key: 'ctrl+r', command: 'run' }]),
+      'snippets/js.json': 'same',
+      'snippets/go.json': 'own go',
+      'tasks.json': '{}'
+    })
+  );
+  const exts = { schemaVersion: 1 as const, generatedAt: 'now', extensions: [{ id: 'a.one' }, { id: 'b.two' }, { id: 'c.three' }] };
+  const own = stripInherited(parents, files, exts);
+
+  assert.deepEqual(JSON.parse(own.files.get('settings.json')!), { b: 2, c: 3 });
+  assert.deepEqual(JSON.parse(own.files.get('keybindings.json')!), [{ key: 'ctrl+r', command: 'run' }]);
+  assert.deepEqual([...own.files.keys()].sort(), ['keybindings.json', 'settings.json', 'snippets/go.json', 'tasks.json']);
+  assert.deepEqual(own.extensions.extensions, [{ id: 'b.two' }, { id: 'c.three' }]);
+});
+
+test('stripping and merging again gives back the original settings', () => {
+  const parent = layer('parent', { 'settings.json': '{ "a": 1, "b": 1 }' });
+  const mine = '{ "a": 1, "b": 2, "c": 3 }';
+  const stripped = stripInherited(mergeProfileLayers([parent]), new Map([['settings.json', mine]]), {
+    schemaVersion: 1,
+    generatedAt: 'now',
+    extensions: []
+  });
+  const effective = mergeProfileLayers([parent, { id: 'own', files: stripped.files }]);
+  assert.deepEqual(JSON.parse(effective.files.get('settings.json')!), JSON.parse(mine));
+});
@@ -0,0 +1,52 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { diffManifest } from '../extension';
+
+const hash = (content: string) => createHash('sha256').update(content).digest('hex');
+
+function manifestOf(files: Record<string, string>) {
+  return Object.fromEntries(Object.entries(files).map(([name, content]) => [name, hash(content)]));
+}
+
+const deleteAny = () => true;
+
+test('only files whose hash changed are written', () => {
+  const remote = manifestOf({ 'settings.json': '{ "a": 1 }', 'keybindings.json': '[]' });
+  const files = new Map(Object.entries({ 'settings.json': '{ "a": 2 }', 'keybindings.json': '[]', 'snippets/js.json': '{}' }));
+  const diff = diffManifest(remote, files, deleteAny);
+  assert.deepEqual(diff.changed, [
+    ['settings.json', '{ "a": 2 }'],
+    ['snippets/js.json', '{}']
+  ]);
+  assert.deepEqual(diff.deleted, []);
+  assert.deepEqual(diff.manifest, manifestOf({ 'keybindings.json': '[]', 'settings.json': '{ "a": 2 }', 'snippets/js.json': '{}' }));
+});
+
+test('an unchanged profile has nothing to write', () => {
+  const files = { 'settings.json': '{}', 'keybindings.json': '[]' };
+  const diff = diffManifest(manifestOf(files), new Map(Object.entries(files)), deleteAny);
+  assert.deepEqual([diff.changed, diff.deleted], [[], []]);
+  assert.deepEqual(diff.manifest, manifestOf(files));
+});
+
+test('rewriteAll writes every file even when its hash is the same', () => {
+  const files = { 'settings.json': '{}', 'keybindings.json': '[]' };
+  const diff = diffManifest(manifestOf(files), new Map(Object.entries(files)), deleteAny, true);
+  assert.deepEqual(diff.changed.map(([name]) => name), ['settings.json', 'keybindings.json']);
+});
+
+test('remote files missing locally are deleted only when allowed, the rest stay in the manifest', () => {
+  const remote = manifestOf({ 'settings.json': '{}', 'snippets/old.json': 'old', 'settings.darwin.json': '{}' });
+  const files = new Map([['settings.json', '{}']]);
+  const diff = diffManifest(remote, files, (name) => name.startsWith('snippets/'));
+  assert.deepEqual(diff.deleted, ['snippets/old.json']);
+  assert.deepEqual(Object.keys(diff.manifest), ['settings.darwin.json', 'settings.json']);
+  assert.equal(diff.manifest['settings.darwin.json'], remote['settings.darwin.json']);
+});
+
+test('the manifest is sorted by file name', () => {
+  const diff = diffManifest({}, new Map(Object.entries({ 'snippets/b.json': 'b', 'extensions.json': 'e', 'snippets/a.json': 'a' })), deleteAny);
+  assert.deepEqual(Object.keys(diff.manifest), ['extensions.json', 'snippets/a.json', 'snippets/b.json']);
+});
@@ -0,0 +1,84 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  applyKeybindingsMerge,
+  applySettingsMerge,
+  keybindingEntries,
+  settingsEntries,
+  threeWayMerge
+} from '../extension';
+
+function mergeSettings(base: string, local: string, remote: string) {
+  const plan = threeWayMerge(settingsEntries(base), settingsEntries(local), settingsEntries(remote));
+  return { text: applySettingsMerge(local, plan.apply), conflicts: plan.conflicts };
+}
+
+// Multi-line like the keybindings.json VS Code writes
+const keybindings = (list: unknown[]) => JSON.stringify(list, null, 2);
+
+function mergeKeybindings(base: string, local: string, remote: string) {
+  const plan = threeWayMerge(keybindingEntries(base), keybindingEntries(local), keybindingEntries(remote));
+  return { text: applyKeybindingsMerge(local, plan.apply), conflicts: plan.conflicts };
+}
+
+test('settings: remote changes apply, local changes stay', () => {
+  const base = '{ "a": 1, "b": 1, "c": 1 }';
+  const local = '{\n  // mine\n  "a": 2,\n  "b": 1,\n  "c": 1\n}';
+  const remote = '{ "a": 1, "b": 3, "d": 4 }';
+  const { text, conflicts } = mergeSettings(base, local, remote);
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(settingsEntries(text), new Map<string, unknown>([['a', 2], ['b', 3], ['d', 4]]));
+  assert.match(text, /\/\/ mine/);
+});
+
+test('settings: both sides changing a key differently is a conflict', () => {
+  const { text, conflicts } = mergeSettings('{ "a": 1 }', '{ "a": 2 }', '{ "a": 3 }');
+  assert.deepEqual(conflicts, [{ key: 'a', local: 2, remote: 3 }]);
+  assert.equal(text, '{ "a": 2 }');
+});
+
+test('settings: the same change on both sides is not a conflict', () => {
+  const { text, conflicts } = mergeSettings('{ "a": 1 }', '{ "a": { "x": true } }', '{ "a": { "x": true } }');
+  assert.deepEqual(conflicts, []);
+  assert.equal(text, '{ "a": { "x": true } }');
+});
+
+test('settings: a key deleted on one side and edited on the other is a conflict', () => {
+  const { conflicts } = mergeSettings('{ "a": 1 }', '{}', '{ "a": 2 }');
+  assert.deepEqual(conflicts, [{ key: 'a', local: undefined, remote: 2 }]);
+});
+
+test('settings: an empty local file takes the remote keys', () => {
+  const { text } = mergeSettings('', '', '{ "a": 1 }');
+  assert.deepEqual(settingsEntries(text), new Map([['a', 1]]));
+});
+
+test('keybindings: remote additions and removals apply, local entries stay in place', () => {
+  const mine = { key: 'ctrl+m', command: 'mine' };
+  const shared = { key: 'ctrl+s', command: 'shared' };
+  const gone = { key: 'ctrl+g', command: 'gone' };
+  const added = { key: 'ctrl+n', command: 'added', when: 'editorFocus' };
+  const base = keybindings([shared, gone]);
+  const local = keybindings([mine, shared, gone]);
+  const remote = keybindings([shared, added]);
+  const { text, conflicts } = mergeKeybindings(base, local, remote);
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(JSON.parse(text), [mine, shared, added]);
+});
+
+test('keybindings: the same key with another `when` is a separate entry', () => {
+  const a = { key: 'ctrl+k', command: 'run' };
+  const b = { key: 'ctrl+k', command: 'run', when: 'terminalFocus' };
+  const { text, conflicts } = mergeKeybindings('[]', keybindings([a]), keybindings([b]));
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(JSON.parse(text), [a, b]);
+});
+
+test('keybindings: an entry removed locally and changed remotely is a conflict', () => {
+  const before = { key: 'ctrl+k', command: 'run', args: 1 };
+  const after = { key: 'ctrl+k', command: 'run', args: 2 };
+  const { conflicts } = mergeKeybindings(keybindings([before]), '[]', keybindings([after]));
+  assert.equal(conflicts.length, 1);
+  assert.deepEqual(conflicts[0].remote, after);
+});
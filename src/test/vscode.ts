@@ -0,0 +1,51 @@
+// Stand-in for the `vscode` module, which only exists inside the extension host. Import this before
+// ../extension so the module loads under `node --test`; only what the tested code touches is provided.
+import Module from 'module';
+import * as os from 'os';
+import * as path from 'path';
+
+// Values returned by getConfiguration('syncVsCodeSettings').get(key)
+export const config = new Map<string, unknown>();
+
+// What vscode.extensions.all reports
+export const extensions: Array<{ id: string; packageJSON: { version?: string; isBuiltin?: boolean } }> = [];
+
+class EventEmitter<T> {
+  private listeners: Array<(e: T) => void> = [];
+  readonly event = (listener: (e: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => (this.listeners = this.listeners.filter((l) => l !== listener)) };
+  };
+
+  fire(e: T) {
+    for (const listener of [...this.listeners]) listener(e);
+  }
+
+  dispose() {
+    this.listeners = [];
+  }
+}
+
+const vscode = {
+  version: '1.85.0',
+  // No product.json there, so the extension falls back to the Microsoft build's defaults
+  env: { appName: 'Visual Studio Code', appRoot: path.join(os.tmpdir(), 'syncvscodesettings-test-no-app-root') },
+  EventEmitter,
+  window: {
+    createOutputChannel: () => ({ trace() {}, debug() {}, info() {}, warn() {}, error() {}, show() {}, dispose() {} })
+  },
+  workspace: {
+    getConfiguration: () => ({ get: (key: string, fallback?: unknown) => (config.has(key) ? config.get(key) : fallback) })
+  },
+  extensions: {
+    get all() {
+      return extensions;
+    },
+    getExtension: () => undefined
+  }
+};
+
+const load = (Module as any)._load;
+(Module as any)._load = function (request: string, ...rest: unknown[]) {
+  return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};